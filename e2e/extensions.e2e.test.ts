@@ -246,6 +246,48 @@ describe("Safe Git", () => {
     expect(output).toMatch(/safe.?git|status|enabled|level/i);
   }, 15_000);
 
+  it("/safegit-rules lists persistent rules", async () => {
+    if (!prereqsMet) return;
+
+    session = new TmuxSession();
+    await session.start("safe-git");
+    await sleep(1000);
+
+    await session.command("safegit-rules");
+    await sleep(500);
+
+    const output = session.capture();
+    expect(output).toMatch(/rules|no persistent rules/i);
+  }, 15_000);
+
+  it("/safegit-undo lists safety snapshots", async () => {
+    if (!prereqsMet) return;
+
+    session = new TmuxSession();
+    await session.start("safe-git");
+    await sleep(1000);
+
+    await session.command("safegit-undo list");
+    await sleep(500);
+
+    const output = session.capture();
+    expect(output).toMatch(/snapshot|not inside a git repository/i);
+  }, 15_000);
+
+  it("/safegit-log shows the audit log", async () => {
+    if (!prereqsMet) return;
+
+    session = new TmuxSession();
+    await session.start("safe-git");
+    await sleep(1000);
+
+    await session.command("safegit-log");
+    await sleep(500);
+
+    const output = session.capture();
+    expect(output).toMatch(/audit log/i);
+  }, 15_000);
+
   it("/safegit-level shows prompt level options", async () => {
     if (!prereqsMet) return;
 
@@ -0,0 +1,104 @@
+/**
+ * Audit log for safe-git
+ *
+ * Every git/gh invocation safe-git evaluates is appended as one JSON line,
+ * whether it was approved, declined, blocked or allowed without a prompt,
+ * so unattended runs can be reviewed afterwards with /safegit-log:
+ *
+ * {"timestamp":"2025-01-01T12:00:00.000Z","cwd":"/work/app","repo":"/work/app",
+ *  "branch":"main","command":"git push -f","action":"force push","severity":"high",
+ *  "decision":"block","decidedBy":"user"}
+ *
+ * decidedBy:
+ * - "user":            answered the approval prompt
+ * - "session-rule":    session auto-approval or auto-block
+ * - "persistent-rule": repo or global rule from /safegit-rules
+ * - "non-interactive": no UI available to ask
+ * - "config":          blocked by a setting (hookBypass: "block")
+ * - "auto":            below the prompt level (e.g. low risk), allowed without asking
+ *
+ * When the user edits the command in the approval prompt, the entry also
+ * has "editedCommand" with what actually ran.
+ */
+
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { Severity } from "./classify";
+import type { RuleDecision } from "./rules";
+
+export type DecidedBy = "user" | "session-rule" | "persistent-rule" | "non-interactive" | "config" | "auto";
+
+export interface AuditEntry {
+  timestamp: string;
+  cwd: string;
+  repo: string | null;
+  branch: string | null;
+  command: string;
+  action: string;
+  severity: Severity;
+  decision: RuleDecision;
+  decidedBy: DecidedBy;
+  /** The command that actually ran, when the user edited it in the approval prompt */
+  editedCommand?: string;
+}
+
+export interface AuditFilter {
+  decision?: RuleDecision;
+  decidedBy?: DecidedBy;
+  /** Inclusive lower bound */
+  since?: Date;
+  /** Exclusive upper bound */
+  before?: Date;
+}
+
+export const DEFAULT_AUDIT_LOG_PATH = path.join(os.homedir(), ".pi", "agent", "safe-git-audit.jsonl");
+
+export const DECIDED_BY_VALUES: DecidedBy[] = ["user", "session-rule", "persistent-rule", "non-interactive", "config", "auto"];
+
+/**
+ * Append entries to the audit log, creating the file if needed.
+ */
+export async function appendAuditEntries(logPath: string, entries: AuditEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  await fs.mkdir(path.dirname(logPath), { recursive: true });
+  await fs.appendFile(logPath, entries.map((e) => JSON.stringify(e) + "\n").join(""), "utf8");
+}
+
+/**
+ * Read the audit log, oldest first. Malformed lines are skipped; a missing
+ * file reads as empty.
+ */
+export async function readAuditLog(logPath: string): Promise<AuditEntry[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(logPath, "utf8");
+  } catch {
+    return [];
+  }
+
+  const entries: AuditEntry[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line);
+      if (entry && typeof entry.timestamp === "string" && typeof entry.action === "string") {
+        entries.push(entry);
+      }
+    } catch {
+      // Partial write or hand edit; ignore the line
+    }
+  }
+  return entries;
+}
+
+export function filterAuditEntries(entries: AuditEntry[], filter: AuditFilter): AuditEntry[] {
+  return entries.filter((entry) => {
+    if (filter.decision && entry.decision !== filter.decision) return false;
+    if (filter.decidedBy && entry.decidedBy !== filter.decidedBy) return false;
+    const time = Date.parse(entry.timestamp);
+    if (filter.since && !(time >= filter.since.getTime())) return false;
+    if (filter.before && !(time < filter.before.getTime())) return false;
+    return true;
+  });
+}
@@ -0,0 +1,115 @@
+/**
+ * Hook and signing bypass detection for safe-git
+ *
+ * When a pre-commit hook fails, agents tend to retry with `--no-verify`
+ * rather than fix what the hook reported. This module spots the flags,
+ * config overrides and environment variables that skip hooks or commit
+ * signing on commit, push, merge and rebase:
+ *
+ * - `--no-verify` (and `-n` on commit), `--no-gpg-sign`
+ * - `-c core.hooksPath=...`, `-c commit.gpgsign=false` (and tag/push variants)
+ * - `HUSKY=0`, `HUSKY_SKIP_HOOKS=1`, `SKIP=...` (pre-commit) prefixed to the command
+ *
+ * A bypass is its own action, which session approvals and allow rules never
+ * cover: it always prompts, or is blocked outright with `hookBypass: "block"`.
+ */
+
+import type { GitInvocation } from "./classify";
+
+export const BYPASS_ACTION = "hook/signing bypass";
+
+// Advice appended to every block reason for a bypass
+export const BYPASS_ADVICE =
+  "Do not bypass git hooks or commit signing. Fix the problem the hook reported " +
+  "(run the failing hook or linter, fix the errors, or ask the user for help) and retry without the bypass.";
+
+const BYPASS_SUBCOMMANDS = new Set(["commit", "push", "merge", "rebase"]);
+
+// Short options of `git commit` that take a value, which ends a cluster like `-am`
+const COMMIT_SHORT_WITH_VALUE = new Set(["m", "F", "c", "C", "t", "S", "u"]);
+// Of those, the ones whose value may be the next argument (-S and -u only take attached values)
+const COMMIT_SHORT_WITH_SEPARATE_VALUE = new Set(["m", "F", "c", "C", "t"]);
+const COMMIT_LONG_WITH_VALUE = new Set([
+  "--message",
+  "--file",
+  "--author",
+  "--date",
+  "--template",
+  "--reuse-message",
+  "--reedit-message",
+  "--fixup",
+  "--squash",
+  "--cleanup",
+  "--trailer",
+]);
+
+const BYPASS_CONFIG: [RegExp, string][] = [
+  [/^core\.hookspath=/i, "redirects hooks"],
+  [/^(commit|tag|push)\.gpgsign=(false|no|off|0)$/i, "disables signing"],
+];
+
+const BYPASS_ENV: [RegExp, string][] = [
+  [/^HUSKY=0$/, "disables husky hooks"],
+  [/^HUSKY_SKIP_HOOKS=(1|true)$/, "disables husky hooks"],
+  [/^SKIP=./, "skips pre-commit hooks"],
+];
+
+/**
+ * Bypass flags in a git invocation, each with a short explanation
+ * (e.g. "--no-verify (skips hooks)"). Empty when there are none.
+ */
+export function findBypassFlags(invocation: GitInvocation): string[] {
+  if (invocation.tool !== "git") return [];
+
+  const [subcommand, ...args] = invocation.args;
+  if (!BYPASS_SUBCOMMANDS.has(subcommand)) return [];
+
+  const found: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--") break;
+    if (arg === "--no-verify") {
+      found.push("--no-verify (skips hooks)");
+    } else if (arg === "--no-gpg-sign") {
+      found.push("--no-gpg-sign (disables signing)");
+    } else if (subcommand === "commit" && COMMIT_LONG_WITH_VALUE.has(arg)) {
+      i++; // e.g. `-m` text that happens to read "-n"
+    } else if (subcommand === "commit" && /^-[a-zA-Z]+$/.test(arg)) {
+      if (clusterHasNoVerify(arg)) found.push(`${arg} (-n skips hooks)`);
+      if (clusterTakesNextArg(arg)) i++;
+    }
+  }
+
+  const { globalOptions } = invocation;
+  for (let i = 0; i < globalOptions.length; i++) {
+    if (globalOptions[i] !== "-c") continue;
+    const setting = globalOptions[i + 1] ?? "";
+    for (const [pattern, effect] of BYPASS_CONFIG) {
+      if (pattern.test(setting)) found.push(`-c ${setting} (${effect})`);
+    }
+  }
+
+  for (const assignment of invocation.assignments) {
+    for (const [pattern, effect] of BYPASS_ENV) {
+      if (pattern.test(assignment)) found.push(`${assignment} (${effect})`);
+    }
+  }
+
+  return found;
+}
+
+// `-am msg`: the value option ends the cluster, so its value is the next argument
+function clusterTakesNextArg(cluster: string): boolean {
+  const index = [...cluster.slice(1)].findIndex((ch) => COMMIT_SHORT_WITH_VALUE.has(ch));
+  return index === cluster.length - 2 && COMMIT_SHORT_WITH_SEPARATE_VALUE.has(cluster[cluster.length - 1]);
+}
+
+function clusterHasNoVerify(cluster: string): boolean {
+  for (const ch of cluster.slice(1)) {
+    if (ch === "n") return true;
+    // The rest of the cluster is this option's value
+    if (COMMIT_SHORT_WITH_VALUE.has(ch)) return false;
+  }
+  return false;
+}
@@ -0,0 +1,336 @@
+/**
+ * Git/gh command classification for safe-git
+ *
+ * Parses a bash command with the shared shell tokenizer, finds every git and
+ * gh invocation in it (including inside `&&` chains, pipelines, subshells,
+ * `$(...)`, `sh -c '...'` and behind `env`/`sudo` wrappers), strips git's
+ * global options (`-C`, `-c`, `--git-dir`, ...) and matches each normalized
+ * invocation against the pattern table.
+ *
+ * The built-in table can be extended from `safeGit.patterns` in settings:
+ * entries with a `pattern` add custom patterns (checked before the built-ins),
+ * entries without one override the severity of a built-in action.
+ */
+
+import * as path from "node:path";
+import { parseShellCommands, unwrapCommand, commandName, shellQuote } from "../../shared";
+
+export type Severity = "high" | "medium" | "low";
+
+export interface GitPattern {
+  pattern: RegExp;
+  action: string;
+  severity: Severity;
+}
+
+export interface GitInvocation {
+  tool: "git" | "gh";
+  /** Arguments after the tool name and any git global options (subcommand first) */
+  args: string[];
+  /** Git global options that preceded the subcommand */
+  globalOptions: string[];
+  /** Directory the invocation runs in, after `cd` and `-C` are applied */
+  cwd: string;
+  /** `VAR=value` assignments prefixed to the command (including via `env`) */
+  assignments: string[];
+  /** Normalized form used for pattern matching, e.g. "git push --force origin main" */
+  normalized: string;
+}
+
+/** A `safeGit.patterns` settings entry, as written by the user */
+export interface PatternSetting {
+  /** Regular expression (string) tested case-insensitively against the normalized invocation */
+  pattern?: string;
+  action?: string;
+  severity?: Severity;
+}
+
+export interface GitMatch {
+  action: string;
+  severity: Severity;
+  invocation: GitInvocation;
+}
+
+// Patterns that require explicit approval, ordered by severity.
+// Each pattern is tested against a single normalized invocation.
+export const gitPatterns: GitPattern[] = [
+  // High risk - destructive operations
+  { pattern: /^git\s+push\b.*\s--mirror\b/i, action: "push --mirror", severity: "high" },
+  { pattern: /^git\s+push\b.*(\s(--delete|-d)\b|\s:\S)/i, action: "push --delete", severity: "high" },
+  { pattern: /^git\s+push\b.*\s(--force(-with-lease)?\b|-[a-z]*f\b|\+\S)/i, action: "force push", severity: "high" },
+  { pattern: /^git\s+reset\b.*\s--hard\b/i, action: "hard reset", severity: "high" },
+  { pattern: /^git\s+clean\b.*\s(-[a-z]*f|--force\b)/i, action: "clean (remove untracked files)", severity: "high" },
+  { pattern: /^git\s+stash\s+(drop|clear)\b/i, action: "drop/clear stash", severity: "high" },
+  { pattern: /^git\s+branch\b.*\s(-[dD]|--delete)\b/i, action: "delete branch", severity: "high" },
+  { pattern: /^git\s+reflog\s+expire\b/i, action: "expire reflog", severity: "high" },
+  { pattern: /^git\s+filter-branch\b/i, action: "filter-branch", severity: "high" },
+
+  // Medium risk - state-changing operations
+  { pattern: /^git\s+push\b/i, action: "push", severity: "medium" },
+  { pattern: /^git\s+commit\b/i, action: "commit", severity: "medium" },
+  { pattern: /^git\s+rebase\b/i, action: "rebase", severity: "medium" },
+  { pattern: /^git\s+merge\b/i, action: "merge", severity: "medium" },
+  { pattern: /^git\s+tag\b/i, action: "create/modify tag", severity: "medium" },
+  { pattern: /^git\s+cherry-pick\b/i, action: "cherry-pick", severity: "medium" },
+  { pattern: /^git\s+revert\b/i, action: "revert", severity: "medium" },
+  { pattern: /^git\s+am\b/i, action: "apply patches", severity: "medium" },
+  { pattern: /^git\s+replace\b(?!.*\s(-l|--list)\b)/i, action: "replace objects", severity: "medium" },
+
+  // GitHub CLI - destructive (high risk)
+  { pattern: /^gh\s+[\w-]+\s+delete\b/i, action: "GitHub CLI (destructive)", severity: "high" },
+  { pattern: /^gh\s+repo\s+(archive|rename)\b/i, action: "GitHub CLI (destructive)", severity: "high" },
+  { pattern: /^gh\s+secret\s+(set|remove)\b/i, action: "GitHub CLI (destructive)", severity: "high" },
+  { pattern: /^gh\s+api\b.*\s(-X\s*|--method[\s=])(DELETE|PATCH)\b/i, action: "GitHub CLI (destructive)", severity: "high" },
+
+  // GitHub CLI - read-only (low risk, never prompts). `gh api` is read-only
+  // only as a GET without request fields.
+  { pattern: /^gh\s+[\w-]+\s+(view|list|ls|status|diff|checks)\b/i, action: "GitHub CLI (read-only)", severity: "low" },
+  { pattern: /^gh\s+(status|search|browse|version|help)\b/i, action: "GitHub CLI (read-only)", severity: "low" },
+  {
+    pattern: /^gh\s+api\b(?!.*\s(-X\s*|--method[\s=]\s*)(?!\s|GET\b))(?!.*\s(-f|-F|--field|--raw-field|--input)\b)/i,
+    action: "GitHub CLI (read-only)",
+    severity: "low",
+  },
+
+  // GitHub CLI - everything else mutates state (medium risk)
+  { pattern: /^gh\s+\S+/i, action: "GitHub CLI (mutating)", severity: "medium" },
+];
+
+const SEVERITIES: Severity[] = ["high", "medium", "low"];
+
+/**
+ * Build the pattern table from the built-ins and `safeGit.patterns`.
+ * Invalid entries are skipped and reported in `errors`.
+ */
+export function buildPatternTable(settings: unknown): { patterns: GitPattern[]; errors: string[] } {
+  const errors: string[] = [];
+  const custom: GitPattern[] = [];
+  const overrides = new Map<string, Severity>();
+  const builtinActions = new Set(gitPatterns.map((p) => p.action));
+
+  if (settings !== undefined && !Array.isArray(settings)) {
+    return { patterns: gitPatterns, errors: ["safeGit.patterns must be an array"] };
+  }
+
+  ((settings as unknown[]) ?? []).forEach((entry, i) => {
+    const where = `safeGit.patterns[${i}]`;
+    if (!entry || typeof entry !== "object") {
+      errors.push(`${where}: expected an object`);
+      return;
+    }
+
+    const { pattern, action, severity } = entry as PatternSetting;
+    if (typeof action !== "string" || !action.trim()) {
+      errors.push(`${where}: "action" must be a non-empty string`);
+      return;
+    }
+    if (!SEVERITIES.includes(severity as Severity)) {
+      errors.push(`${where}: "severity" must be one of ${SEVERITIES.join(", ")}`);
+      return;
+    }
+
+    if (pattern === undefined) {
+      if (!builtinActions.has(action)) {
+        errors.push(`${where}: no built-in action "${action}" to override (add a "pattern" to define a new one)`);
+        return;
+      }
+      overrides.set(action, severity as Severity);
+      return;
+    }
+
+    if (typeof pattern !== "string" || !pattern) {
+      errors.push(`${where}: "pattern" must be a non-empty string`);
+      return;
+    }
+    try {
+      custom.push({ pattern: new RegExp(pattern, "i"), action, severity: severity as Severity });
+    } catch (e) {
+      errors.push(`${where}: invalid pattern: ${e instanceof Error ? e.message : e}`);
+    }
+  });
+
+  const builtins = gitPatterns.map((p) => (overrides.has(p.action) ? { ...p, severity: overrides.get(p.action)! } : p));
+  return { patterns: [...custom, ...builtins], errors };
+}
+
+export const severityRank: Record<Severity, number> = {
+  high: 2,
+  medium: 1,
+  low: 0,
+};
+
+// Git global options that take a separate value argument
+const GIT_GLOBAL_OPTIONS_WITH_VALUE = new Set([
+  "-C",
+  "-c",
+  "--git-dir",
+  "--work-tree",
+  "--namespace",
+  "--exec-path",
+  "--super-prefix",
+  "--config-env",
+  "--list-cmds",
+]);
+
+// Shells whose `-c` argument is itself a command line worth inspecting
+const NESTED_SHELLS = new Set(["sh", "bash", "zsh", "dash", "ksh"]);
+
+export interface CommandInvocation {
+  /** Command words after wrappers (`env`, `sudo`, ...) and assignments are removed */
+  argv: string[];
+  /** Directory the command runs in, after preceding `cd` commands */
+  cwd: string;
+  /** `VAR=value` assignments before the command (including `env VAR=value`) */
+  assignments: string[];
+}
+
+/**
+ * Find every simple command in a bash command line, with its working
+ * directory. `cd`/`pushd` are applied rather than returned, and the scripts
+ * of `sh -c '...'` and `eval` are expanded in place.
+ */
+export function findCommandInvocations(command: string, cwd: string): CommandInvocation[] {
+  const invocations: CommandInvocation[] = [];
+  // Working directory per nesting depth, so a `cd` inside a subshell
+  // doesn't leak into the commands that follow it
+  const dirs: string[] = [cwd];
+
+  for (const shellCommand of parseShellCommands(command)) {
+    const words = shellCommand.words.map((w) => w.value);
+    const { argv, offset } = unwrapCommand(words);
+    if (argv.length === 0) continue;
+
+    const depth = shellCommand.depth;
+    dirs.length = Math.min(dirs.length, depth + 1);
+    while (dirs.length <= depth) dirs.push(dirs[dirs.length - 1]);
+    const currentDir = dirs[depth];
+
+    const name = commandName(argv[0]);
+
+    if (name === "cd" || name === "pushd") {
+      const target = argv.slice(1).find((a) => !a.startsWith("-"));
+      if (target && !target.startsWith("$") && !target.startsWith("~")) {
+        dirs[depth] = path.resolve(currentDir, target);
+      }
+      continue;
+    }
+
+    if (NESTED_SHELLS.has(name) || name === "eval") {
+      const script = name === "eval" ? argv.slice(1).join(" ") : nestedShellScript(argv);
+      if (script) {
+        invocations.push(...findCommandInvocations(script, currentDir));
+        continue;
+      }
+    }
+
+    const assignments = words.slice(0, offset).filter((w) => /^[A-Za-z_][A-Za-z0-9_]*=/.test(w));
+    invocations.push({ argv, cwd: currentDir, assignments });
+  }
+
+  return invocations;
+}
+
+/**
+ * Interpret a command as a git or gh invocation, or null if it is neither.
+ */
+export function toGitInvocation({ argv, cwd, assignments }: CommandInvocation): GitInvocation | null {
+  const name = commandName(argv[0]);
+
+  if (name === "git") {
+    return { ...parseGitArgs(argv.slice(1), cwd), assignments };
+  }
+  if (name === "gh") {
+    const args = argv.slice(1);
+    return {
+      tool: "gh",
+      args,
+      globalOptions: [],
+      cwd,
+      assignments,
+      normalized: ["gh", ...args].map(shellQuote).join(" "),
+    };
+  }
+  return null;
+}
+
+/**
+ * Find every git and gh invocation in a bash command.
+ *
+ * `cwd` is the directory the command starts in; `cd <dir>` commands and
+ * `git -C <dir>` are applied so each invocation knows which repository it
+ * targets.
+ */
+export function findGitInvocations(command: string, cwd: string): GitInvocation[] {
+  return findCommandInvocations(command, cwd)
+    .map(toGitInvocation)
+    .filter((invocation): invocation is GitInvocation => invocation !== null);
+}
+
+/**
+ * Classify a bash command, returning one match per git/gh invocation that
+ * hits a protected pattern (first matching pattern per invocation), sorted
+ * most severe first.
+ */
+export function classifyCommand(command: string, cwd: string, patterns: GitPattern[] = gitPatterns): GitMatch[] {
+  const matches: GitMatch[] = [];
+
+  for (const invocation of findGitInvocations(command, cwd)) {
+    const match = classifyInvocation(invocation, patterns);
+    if (match) matches.push(match);
+  }
+
+  // Stable sort keeps command order within the same severity
+  return matches.sort((a, b) => severityRank[b.severity] - severityRank[a.severity]);
+}
+
+/**
+ * Match a single invocation against the pattern table (first hit wins).
+ */
+export function classifyInvocation(invocation: GitInvocation, patterns: GitPattern[] = gitPatterns): GitMatch | null {
+  const hit = patterns.find(({ pattern }) => pattern.test(invocation.normalized));
+  return hit ? { action: hit.action, severity: hit.severity, invocation } : null;
+}
+
+function parseGitArgs(args: string[], cwd: string): Omit<GitInvocation, "assignments"> {
+  const globalOptions: string[] = [];
+  let dir = cwd;
+  let i = 0;
+
+  while (i < args.length && args[i].startsWith("-")) {
+    const arg = args[i];
+    if (arg === "--") {
+      i++;
+      break;
+    }
+
+    if (GIT_GLOBAL_OPTIONS_WITH_VALUE.has(arg) && i + 1 < args.length) {
+      globalOptions.push(arg, args[i + 1]);
+      if (arg === "-C") dir = path.resolve(dir, args[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    globalOptions.push(arg);
+    i++;
+  }
+
+  const rest = args.slice(i);
+  return {
+    tool: "git",
+    args: rest,
+    globalOptions,
+    cwd: dir,
+    normalized: ["git", ...rest].map(shellQuote).join(" "),
+  };
+}
+
+function nestedShellScript(argv: string[]): string | null {
+  for (let i = 1; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "-c" || (/^-[a-z]*c[a-z]*$/i.test(arg) && !arg.startsWith("--"))) {
+      return argv[i + 1] ?? null;
+    }
+    if (!arg.startsWith("-")) break;
+  }
+  return null;
+}
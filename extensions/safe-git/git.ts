@@ -0,0 +1,65 @@
+/**
+ * Git helpers for safe-git
+ *
+ * Used to inspect the repository a command targets (root, branch, remotes)
+ * before deciding whether to prompt. The inspection helpers fail soft:
+ * outside a repository, or if git is missing, they resolve to null.
+ * `execGit` throws instead, for callers that need git's error message.
+ */
+
+import * as child_process from "node:child_process";
+import { promisify } from "node:util";
+
+const execFileAsync = promisify(child_process.execFile);
+
+const GIT_TIMEOUT_MS = 5000;
+
+export interface GitExecOptions {
+  env?: Record<string, string>;
+  timeout?: number;
+}
+
+/**
+ * Run a git command and return its stdout (trailing newline stripped).
+ * Throws with git's stderr on failure.
+ */
+export async function execGit(args: string[], cwd: string, options: GitExecOptions = {}): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync("git", args, {
+      cwd,
+      timeout: options.timeout ?? GIT_TIMEOUT_MS,
+      maxBuffer: 10 * 1024 * 1024,
+      env: { ...process.env, GIT_TERMINAL_PROMPT: "0", GIT_OPTIONAL_LOCKS: "0", ...options.env },
+    });
+    return stdout.replace(/\n$/, "");
+  } catch (e: any) {
+    const detail = e?.stderr?.toString().trim() || e?.message || String(e);
+    throw new Error(`git ${args[0]} failed: ${detail}`);
+  }
+}
+
+/**
+ * Run a git command and return its stdout (trailing newline stripped),
+ * or null if it fails.
+ */
+export async function runGit(args: string[], cwd: string): Promise<string | null> {
+  try {
+    return await execGit(args, cwd);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Absolute path of the repository's top-level directory.
+ */
+export async function getRepoRoot(cwd: string): Promise<string | null> {
+  return runGit(["rev-parse", "--show-toplevel"], cwd);
+}
+
+/**
+ * Short name of the checked-out branch, or null when HEAD is detached.
+ */
+export async function getCurrentBranch(cwd: string): Promise<string | null> {
+  return runGit(["symbolic-ref", "--quiet", "--short", "HEAD"], cwd);
+}
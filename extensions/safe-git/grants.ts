@@ -0,0 +1,76 @@
+/**
+ * Limited session approvals for safe-git
+ *
+ * "Auto-approve all git push for this session" is coarse for long sessions.
+ * A grant approves an action for a while instead:
+ *
+ * - time: until a deadline ("for the next 10 minutes")
+ * - count: for a number of further commands ("the next 5")
+ * - branch: while a repository stays on the branch it was granted on
+ *
+ * Grants live next to the session-wide approvals and are dropped once used
+ * up, expired, or the branch changed.
+ */
+
+export type ApprovalGrant =
+  | { kind: "time"; expiresAt: number }
+  | { kind: "count"; remaining: number }
+  | { kind: "branch"; root: string; branch: string };
+
+/**
+ * Whether a grant still applies to an operation in `root` on `branch`.
+ * Returns "expired" when it will never apply again and should be dropped.
+ */
+export function checkGrant(
+  grant: ApprovalGrant,
+  root: string | null,
+  branch: string | null,
+  now = Date.now()
+): "active" | "inactive" | "expired" {
+  switch (grant.kind) {
+    case "time":
+      return now < grant.expiresAt ? "active" : "expired";
+    case "count":
+      return grant.remaining > 0 ? "active" : "expired";
+    case "branch":
+      // Other repositories are not covered, but don't end the grant either
+      if (root !== grant.root) return "inactive";
+      return branch === grant.branch ? "active" : "expired";
+  }
+}
+
+/**
+ * Use up one approval of a count grant (other grants aren't used up this
+ * way). Returns true when none are left and the grant should be dropped.
+ */
+export function useGrant(grant: ApprovalGrant): boolean {
+  if (grant.kind !== "count") return false;
+  grant.remaining--;
+  return grant.remaining <= 0;
+}
+
+/**
+ * Short description of what is left of a grant, e.g. "7m 12s left", "3 uses
+ * left", or "last use" for a count grant that was just used up.
+ */
+export function describeGrant(grant: ApprovalGrant, now = Date.now()): string {
+  switch (grant.kind) {
+    case "time":
+      return `${formatDuration(grant.expiresAt - now)} left`;
+    case "count":
+      if (grant.remaining <= 0) return "last use";
+      return grant.remaining === 1 ? "1 use left" : `${grant.remaining} uses left`;
+    case "branch":
+      return `while ${grant.root} is on ${grant.branch}`;
+  }
+}
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+}
@@ -0,0 +1,221 @@
+/**
+ * Git operations hidden behind aliases and scripts
+ *
+ * `git pub`, `npm run release` or `./scripts/release.sh` can push, tag or
+ * reset without "git push" ever appearing in the command line. This module
+ * looks one level (and, recursively, a few more) behind such commands:
+ *
+ * - git aliases: `git config alias.<name>`, both plain (`pub = push --tags`)
+ *   and shell aliases (`pub = "!git push && git push --tags"`)
+ * - package.json scripts run via npm/pnpm/yarn/bun, including pre/post scripts
+ * - shell scripts inside the repository run as `./x.sh`, `bash x.sh`, `source x.sh`
+ *
+ * Scripts are only read, never executed. Only shell scripts are inspected;
+ * other executables (node, python, binaries) are not.
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { commandName, shellQuote } from "../../shared";
+import {
+  classifyInvocation,
+  findCommandInvocations,
+  toGitInvocation,
+  type CommandInvocation,
+  type GitMatch,
+  type GitPattern,
+} from "./classify";
+import { getRepoRoot, runGit } from "./git";
+
+export interface HiddenOperation extends GitMatch {
+  /** How the operation was reached, outermost first, e.g. ['npm script "release"', "scripts/release.sh"] */
+  via: string[];
+}
+
+export interface HiddenScanOptions {
+  /** Also read package.json scripts and shell scripts (aliases are always resolved) */
+  scanScripts: boolean;
+}
+
+const MAX_DEPTH = 4;
+const MAX_SCRIPT_BYTES = 256 * 1024;
+
+const PACKAGE_MANAGERS = new Set(["npm", "pnpm", "yarn", "bun"]);
+// npm shorthands that run the script of the same name
+const NPM_LIFECYCLE = new Map([
+  ["test", "test"],
+  ["t", "test"],
+  ["tst", "test"],
+  ["start", "start"],
+  ["stop", "stop"],
+  ["restart", "restart"],
+]);
+const SHELL_RUNNERS = new Set(["sh", "bash", "zsh", "dash", "ksh", "source", "."]);
+const SHELL_EXTENSIONS = new Set([".sh", ".bash", ".zsh", ".ksh"]);
+
+/**
+ * Find protected git/gh operations reached through aliases and scripts
+ * invoked by `command`. Operations visible in the command itself are not
+ * returned (classifyCommand reports those).
+ */
+export async function findHiddenOperations(
+  command: string,
+  cwd: string,
+  patterns: GitPattern[],
+  options: HiddenScanOptions
+): Promise<HiddenOperation[]> {
+  const found: HiddenOperation[] = [];
+  await scan(command, cwd, [], new Set(), patterns, options, found);
+  return found;
+}
+
+async function scan(
+  command: string,
+  cwd: string,
+  via: string[],
+  seen: Set<string>,
+  patterns: GitPattern[],
+  options: HiddenScanOptions,
+  found: HiddenOperation[]
+): Promise<void> {
+  if (via.length > MAX_DEPTH) return;
+
+  for (const invocation of findCommandInvocations(command, cwd)) {
+    // Operations directly in the scanned text are hidden only if we got here through something
+    const git = toGitInvocation(invocation);
+    const match = git ? classifyInvocation(git, patterns) : null;
+    if (match) {
+      if (via.length > 0) found.push({ ...match, via });
+      continue;
+    }
+
+    const expansion = git
+      ? await expandAlias(git.args, git.globalOptions, git.cwd)
+      : options.scanScripts
+        ? await expandScript(invocation)
+        : null;
+    if (!expansion) continue;
+
+    // Guard against alias and script cycles
+    const key = `${expansion.cwd}\0${expansion.label}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    for (const text of expansion.commands) {
+      await scan(text, expansion.cwd, [...via, expansion.label], seen, patterns, options, found);
+    }
+  }
+}
+
+interface Expansion {
+  label: string;
+  /** Command lines to scan, in run order */
+  commands: string[];
+  cwd: string;
+}
+
+async function expandAlias(args: string[], globalOptions: string[], cwd: string): Promise<Expansion | null> {
+  const [name, ...rest] = args;
+  if (!name || !/^[\w.-]+$/.test(name)) return null;
+
+  const value = await runGit(["config", "--get", `alias.${name}`], cwd);
+  if (!value) return null;
+
+  const label = `git alias "${name}"`;
+  const restQuoted = rest.map(shellQuote).join(" ");
+  if (value.startsWith("!")) {
+    // Shell aliases run from the top of the working tree, with the arguments appended
+    const root = (await getRepoRoot(cwd)) ?? cwd;
+    return { label, commands: [`${value.slice(1)} ${restQuoted}`], cwd: root };
+  }
+  return { label, commands: [["git", ...globalOptions.map(shellQuote), value, restQuoted].join(" ")], cwd };
+}
+
+async function expandScript(invocation: CommandInvocation): Promise<Expansion | null> {
+  const { argv, cwd } = invocation;
+  const name = commandName(argv[0]);
+
+  if (PACKAGE_MANAGERS.has(name)) {
+    return expandPackageScript(name, argv.slice(1), cwd);
+  }
+
+  let scriptArg: string | undefined;
+  if (SHELL_RUNNERS.has(name)) {
+    scriptArg = argv.slice(1).find((a) => !a.startsWith("-"));
+  } else if (argv[0].includes("/")) {
+    scriptArg = argv[0];
+  }
+  return scriptArg ? expandShellScript(scriptArg, cwd) : null;
+}
+
+async function expandPackageScript(manager: string, args: string[], cwd: string): Promise<Expansion | null> {
+  const positional = args.filter((a) => !a.startsWith("-"));
+  let script: string | undefined;
+  if (positional[0] === "run" || positional[0] === "run-script") {
+    script = positional[1];
+  } else if (manager === "npm") {
+    script = NPM_LIFECYCLE.get(positional[0]);
+  } else {
+    // `yarn release`, `pnpm release`, `bun release` run the script if there is one
+    script = positional[0];
+  }
+  if (!script) return null;
+
+  const packageDir = await findPackageDir(cwd);
+  if (!packageDir) return null;
+
+  let scripts: Record<string, unknown>;
+  try {
+    scripts = JSON.parse(await fs.readFile(path.join(packageDir, "package.json"), "utf8")).scripts ?? {};
+  } catch {
+    return null;
+  }
+  if (typeof scripts[script] !== "string") return null;
+
+  const commands = [`pre${script}`, script, `post${script}`]
+    .map((s) => scripts[s])
+    .filter((s): s is string => typeof s === "string");
+  return { label: `${manager} script "${script}"`, commands, cwd: packageDir };
+}
+
+async function expandShellScript(scriptArg: string, cwd: string): Promise<Expansion | null> {
+  if (scriptArg.startsWith("$") || scriptArg.startsWith("~")) return null;
+  const file = path.resolve(cwd, scriptArg);
+
+  // Only scripts that belong to the repository the command runs in
+  const root = await getRepoRoot(cwd);
+  if (!root || path.relative(root, file).startsWith("..")) return null;
+
+  let content: string;
+  try {
+    const stat = await fs.stat(file);
+    if (!stat.isFile() || stat.size > MAX_SCRIPT_BYTES) return null;
+    content = await fs.readFile(file, "utf8");
+  } catch {
+    return null;
+  }
+
+  const shebang = content.startsWith("#!") ? content.slice(0, content.indexOf("\n")) : "";
+  const isShell = SHELL_EXTENSIONS.has(path.extname(file)) || /\b(ba|z|da|k)?sh\b/.test(shebang);
+  if (!isShell) return null;
+
+  // Scripts run in the caller's directory, not their own
+  return { label: path.relative(root, file), commands: [content], cwd };
+}
+
+/**
+ * Nearest directory at or above `cwd` containing a package.json.
+ */
+async function findPackageDir(cwd: string): Promise<string | null> {
+  let dir = cwd;
+  for (;;) {
+    try {
+      await fs.access(path.join(dir, "package.json"));
+      return dir;
+    } catch {
+      const parent = path.dirname(dir);
+      if (parent === dir) return null;
+      dir = parent;
+    }
+  }
+}
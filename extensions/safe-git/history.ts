@@ -0,0 +1,127 @@
+/**
+ * Published-history detection for safe-git
+ *
+ * Amending, rebasing, filter-branch and replace rewrite commits. That is
+ * harmless locally, but once the commits are on a remote, rewriting them
+ * forces everyone else to recover (and usually leads to a force push).
+ *
+ * For those operations this module works out which commits would be
+ * rewritten and checks them against the remote-tracking refs (as of the
+ * last fetch). Matches that rewrite published commits are escalated to high
+ * risk with the action suffixed, like pushes to protected branches.
+ */
+
+import type { GitInvocation } from "./classify";
+import { runGit } from "./git";
+
+// Suffix appended to an action that rewrites published commits, so session
+// approvals and rules for the plain action don't cover it
+export const PUBLISHED_SUFFIX = " (published history)";
+
+// Actions that can be escalated (for listing in /safegit-rules)
+export const REWRITE_ACTIONS = ["commit", "rebase", "filter-branch", "replace objects"];
+
+const MAX_LISTED_BRANCHES = 5;
+
+const REBASE_OPTIONS_WITH_VALUE = new Set(["--onto", "-s", "--strategy", "-X", "--strategy-option", "-x", "--exec"]);
+const REBASE_IN_PROGRESS = new Set(["--continue", "--abort", "--skip", "--quit", "--edit-todo", "--show-current-patch"]);
+
+export interface PublishedRewrite {
+  /** Number of rewritten commits that are on a remote */
+  published: number;
+  /** Remote-tracking branches containing at least one of them */
+  remoteBranches: string[];
+}
+
+/**
+ * Check whether a git invocation rewrites commits already on a remote.
+ * Returns null for non-rewriting invocations, or when nothing published is affected.
+ */
+export async function findPublishedRewrite(invocation: GitInvocation): Promise<PublishedRewrite | null> {
+  if (invocation.tool !== "git") return null;
+
+  const revArgs = rewrittenRevisions(invocation.args);
+  if (!revArgs) return null;
+
+  const cwd = invocation.cwd;
+  const all = await runGit(["rev-list", ...revArgs], cwd);
+  const unpublished = await runGit(["rev-list", ...revArgs, "--not", "--remotes"], cwd);
+  if (all === null || unpublished === null) return null;
+
+  const local = new Set(unpublished.split("\n").filter(Boolean));
+  const published = all.split("\n").filter((sha) => sha && !local.has(sha));
+  if (published.length === 0) return null;
+
+  // rev-list lists newest first; the oldest published commit is in every
+  // remote branch that has any of them
+  const oldest = published[published.length - 1];
+  const refs = await runGit(["for-each-ref", "--format=%(refname:short)", "--contains", oldest, "refs/remotes"], cwd);
+  const remoteBranches = (refs ?? "")
+    .split("\n")
+    .filter((ref) => ref && !ref.endsWith("/HEAD"));
+
+  return { published: published.length, remoteBranches };
+}
+
+export function describePublishedRewrite(rewrite: PublishedRewrite): string {
+  const commits = rewrite.published === 1 ? "1 commit" : `${rewrite.published} commits`;
+  const shown = rewrite.remoteBranches.slice(0, MAX_LISTED_BRANCHES);
+  const more = rewrite.remoteBranches.length - shown.length;
+  const where = shown.length > 0 ? ` on ${shown.join(", ")}${more > 0 ? ` and ${more} more` : ""}` : " on a remote";
+  return `rewrites ${commits} already published${where}`;
+}
+
+/**
+ * rev-list arguments selecting the commits an invocation rewrites, or null.
+ */
+function rewrittenRevisions(args: string[]): string[] | null {
+  const [subcommand, ...rest] = args;
+
+  switch (subcommand) {
+    case "commit":
+      // --amend replaces HEAD
+      return rest.includes("--amend") ? ["--no-walk", "HEAD"] : null;
+
+    case "rebase":
+      return rebaseRange(rest);
+
+    case "filter-branch": {
+      // Revisions follow `--`; without them filter-branch rewrites HEAD's history
+      const separator = rest.indexOf("--");
+      const revs = separator === -1 ? [] : rest.slice(separator + 1);
+      return revs.length > 0 ? revs : ["HEAD"];
+    }
+
+    case "replace": {
+      if (rest.some((a) => ["-d", "--delete", "-l", "--list"].includes(a))) return null;
+      const object = rest.find((a) => !a.startsWith("-"));
+      return object ? ["--no-walk", object] : null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+function rebaseRange(args: string[]): string[] | null {
+  const positional: string[] = [];
+  let root = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (REBASE_IN_PROGRESS.has(arg)) return null;
+    if (arg === "--root") {
+      root = true;
+    } else if (REBASE_OPTIONS_WITH_VALUE.has(arg)) {
+      i++;
+    } else if (!arg.startsWith("-")) {
+      positional.push(arg);
+    }
+  }
+
+  // `git rebase [upstream [branch]]`; `--root` takes only the branch
+  const [upstream, branch] = root ? [null, positional[0]] : positional;
+  const tip = branch ?? "HEAD";
+  if (root) return [tip];
+  return [`${upstream ?? "@{upstream}"}..${tip}`];
+}
@@ -2,15 +2,47 @@
  * pi-safe-git Extension
  *
  * Securely prevents dangerous git/gh interactions without explicit user approval.
- * In non-interactive mode, blocks these commands entirely.
+ * In non-interactive mode, blocks these commands unless nonInteractivePolicy
+ * allows them.
  *
  * Protected operations:
  * - git commit, push, reset --hard, rebase, merge, branch -d/-D, tag, stash drop, clean
- * - gh (GitHub CLI) - all commands
+ * - gh (GitHub CLI) - mutating and destructive commands; read-only queries
+ *   (view/list/status/diff/checks, GET-only `gh api`) are allowed
+ *
+ * Commands are parsed rather than regex-matched as a whole: every git/gh
+ * invocation inside `&&`/`;`/`|` chains, subshells, `$(...)` and behind
+ * `env`/`sudo` is classified (git global options like `-C`/`-c` are skipped),
+ * and the most severe one drives the prompt. Quoted text such as
+ * `echo "git push"` is not treated as a git command.
  *
  * Features:
  * - Per-command approval with option to approve all of same type for session
- * - Example: Approve "gh pr view" once or approve all "GitHub CLI" commands for session
+ * - Example: Approve "gh pr merge" once or approve all "GitHub CLI (mutating)"
+ *   commands for session; destructive gh commands still prompt separately
+ * - Limited approvals: for the next N minutes, the next N commands, or until
+ *   the branch changes; /safegit-status shows what is left of each
+ * - Persistent allow/block rules per repository or global
+ *   (~/.pi/agent/safe-git.json), managed with /safegit-rules; a repository's
+ *   own .pi/safe-git.json can only add block rules
+ * - Branch/remote-aware pushes: pushes to protected branches or untrusted
+ *   remotes escalate to high risk, pushes to personal branches are downgraded
+ * - Rewrites of published history (amend, rebase, filter-branch, replace of
+ *   commits reachable from a remote-tracking ref) escalate to high risk
+ * - Dry-run preview of what destructive operations would discard, shown
+ *   before the approval prompt
+ * - Safety snapshot (refs/safe-git/*) of the working tree and any commits at
+ *   risk before an approved high-risk operation runs; restore with /safegit-undo
+ * - Git aliases (`git pub`) are resolved, and package.json scripts and shell
+ *   scripts in the repo (`npm run release`, `./scripts/release.sh`) are read
+ *   for the git/gh operations they would run
+ * - Hook/signing bypass (--no-verify, -n, --no-gpg-sign, -c core.hooksPath=...,
+ *   HUSKY=0) always prompts, ignoring session approvals and allow rules, or
+ *   is blocked outright; the block reason tells the agent to fix the hook failure
+ * - JSONL audit log of every decision (approved, declined, blocked or allowed
+ *   without a prompt, and what decided it); review with /safegit-log
+ * - Summary when the agent finishes: git/gh commands and their decisions,
+ *   branch/HEAD changes and commits created; optionally saved to the session
  * - Notifications on confirmation prompts (using backgroundNotify settings)
  * - Speech message: "{session dir} needs your attention" (template expands to current directory)
  *
@@ -18,7 +50,28 @@
  * {
  *   "safeGit": {
  *     "promptLevel": "medium",  // "high", "medium", or "none"
- *     "enabledByDefault": true
+ *     "enabledByDefault": true,
+ *     "protectedBranches": ["main", "master", "release/*"],
+ *     "personalBranches": ["{user}/*"],  // {user} = local username
+ *     "trustedRemotes": ["origin"],
+ *     "showPreview": true,
+ *     "autoSnapshot": true,
+ *     "maxSnapshots": 20,
+ *     "auditLog": true,
+ *     "auditLogPath": "~/.pi/agent/safe-git-audit.jsonl",
+ *     "nonInteractivePolicy": {  // headless runs only (no UI)
+ *       "allow": [{ "action": "commit", "branch": "agent/*" }],
+ *       "deny": [{ "action": "force push" }]
+ *     },
+ *     "patterns": [  // custom patterns, or severity overrides of built-in actions
+ *       { "pattern": "^git\\s+lfs\\s+prune\\b", "action": "lfs prune", "severity": "high" },
+ *       { "action": "rebase", "severity": "high" }
+ *     ],
+ *     "scanScripts": true,  // look inside package.json scripts and repo shell scripts
+ *     "hookBypass": "prompt",  // or "block": --no-verify, --no-gpg-sign, HUSKY=0, ...
+ *     "runSummary": true,  // summary of git/gh operations when the agent finishes
+ *     "saveRunSummary": false,  // also append it to the session (survives resume)
+ *     "approvalMinutes": 10  // duration of "auto-approve for the next N minutes"
  *   },
  *   "backgroundNotify": {
  *     "beep": true,
@@ -49,21 +102,143 @@ import {
   playBeep,
   displayOSXNotification,
   speakMessage,
+  parseDateArg,
 } from "../../shared";
+import {
+  appendAuditEntries,
+  readAuditLog,
+  filterAuditEntries,
+  DEFAULT_AUDIT_LOG_PATH,
+  DECIDED_BY_VALUES,
+  type AuditFilter,
+  type DecidedBy,
+} from "./audit";
+import {
+  buildPatternTable,
+  classifyCommand,
+  findGitInvocations,
+  severityRank,
+  type GitInvocation,
+  type GitMatch,
+  type GitPattern,
+  type PatternSetting,
+  type Severity,
+} from "./classify";
+import { getRepoRoot, getCurrentBranch, execGit, runGit } from "./git";
+import { checkGrant, describeGrant, useGrant, type ApprovalGrant } from "./grants";
+import { findHiddenOperations } from "./hidden";
+import { findBypassFlags, BYPASS_ACTION, BYPASS_ADVICE } from "./bypass";
+import { findPublishedRewrite, describePublishedRewrite, PUBLISHED_SUFFIX, REWRITE_ACTIONS } from "./history";
+import { evaluatePolicy, hasPolicy, type NonInteractivePolicy } from "./policy";
+import {
+  captureRepoState,
+  diffRepoState,
+  formatRunSummary,
+  invocationLabel,
+  SUMMARY_ENTRY_TYPE,
+  type RepoChange,
+  type RepoState,
+  type RunCommand,
+} from "./summary";
+import { buildPreview } from "./preview";
+import {
+  collectKeeps,
+  collectCleaned,
+  createSnapshot,
+  listSnapshots,
+  pruneSnapshots,
+  deleteSnapshot,
+  restoreSnapshotFiles,
+  type Snapshot,
+  type SnapshotKeep,
+} from "./snapshot";
+import {
+  resolvePushTarget,
+  scorePush,
+  expandBranchPatterns,
+  describePushTarget,
+  PROTECTED_SUFFIX,
+  UNTRUSTED_SUFFIX,
+  type PushTarget,
+} from "./risk";
+import {
+  loadRules,
+  ignoredProjectRules,
+  projectRulesPath,
+  addRule,
+  removeRule,
+  findRule,
+  describeRule,
+  type RuleDecision,
+  type RuleScope,
+  type ScopedRule,
+} from "./rules";
 
 type PromptLevel = "high" | "medium" | "none";
-type Severity = "high" | "medium";
 
 interface SafeGitConfig {
   promptLevel?: PromptLevel;
   enabledByDefault?: boolean;
+  protectedBranches?: string[];
+  personalBranches?: string[];
+  trustedRemotes?: string[];
+  showPreview?: boolean;
+  autoSnapshot?: boolean;
+  maxSnapshots?: number;
+  auditLog?: boolean;
+  auditLogPath?: string;
+  nonInteractivePolicy?: NonInteractivePolicy;
+  patterns?: PatternSetting[];
+  scanScripts?: boolean;
+  hookBypass?: "prompt" | "block";
+  runSummary?: boolean;
+  saveRunSummary?: boolean;
+  approvalMinutes?: number;
 }
 
 const DEFAULT_CONFIG: Required<SafeGitConfig> = {
   promptLevel: "medium",
   enabledByDefault: true,
+  protectedBranches: ["main", "master", "release/*"],
+  personalBranches: ["{user}/*"],
+  trustedRemotes: ["origin"],
+  showPreview: true,
+  autoSnapshot: true,
+  maxSnapshots: 20,
+  auditLog: true,
+  auditLogPath: DEFAULT_AUDIT_LOG_PATH,
+  nonInteractivePolicy: {},
+  patterns: [],
+  scanScripts: true,
+  hookBypass: "prompt",
+  runSummary: true,
+  saveRunSummary: false,
+  approvalMinutes: 10,
 };
 
+// Repository context resolved for a git invocation's working directory
+interface RepoContext {
+  root: string | null;
+  branch: string | null;
+  rules: ScopedRule[];
+}
+
+interface EvaluatedMatch extends GitMatch {
+  /** Action before any branch/remote escalation (e.g. "push" for "push to protected branch") */
+  baseAction: string;
+  repo: RepoContext;
+  rule: ScopedRule | null;
+  pushTarget: PushTarget | null;
+  /** Aliases/scripts the invocation was found in, outermost first (empty if in the command itself) */
+  via: string[];
+  /** Hook/signing bypass flags (only on BYPASS_ACTION matches) */
+  bypassFlags: string[];
+  notes: string[];
+}
+
+// What the tool_call handler returns: block, run a different command, or run it as is
+type CommandCheck = { block?: true; command?: string; reason: string } | undefined;
+
 export default function (pi: ExtensionAPI) {
   // Session overrides
   let sessionEnabledOverride: boolean | null = null;
@@ -72,6 +247,9 @@ export default function (pi: ExtensionAPI) {
   // Session approvals: track which actions are auto-approved for this session
   let sessionApprovedActions: Set<string> = new Set();
 
+  // Limited approvals (time, count or branch), alongside the session-wide ones
+  let sessionGrants: Map<string, ApprovalGrant> = new Map();
+
   // Session blocks: track which actions are auto-blocked for this session
   let sessionBlockedActions: Set<string> = new Set();
 
@@ -81,42 +259,32 @@ export default function (pi: ExtensionAPI) {
   // Background notify config for notifications
   let notifyConfig: BackgroundNotifyConfig | null = null;
 
-  // Patterns that require explicit approval, ordered by severity
-  const gitPatterns: { pattern: RegExp; action: string; severity: Severity }[] = [
-    // High risk - destructive operations
-    { pattern: /\bgit\s+push\s+.*--force(-with-lease)?\b/i, action: "force push", severity: "high" },
-    { pattern: /\bgit\s+reset\s+--hard\b/i, action: "hard reset", severity: "high" },
-    { pattern: /\bgit\s+clean\s+-[a-z]*f/i, action: "clean (remove untracked files)", severity: "high" },
-    { pattern: /\bgit\s+stash\s+(drop|clear)\b/i, action: "drop/clear stash", severity: "high" },
-    { pattern: /\bgit\s+branch\s+-[dD]\b/i, action: "delete branch", severity: "high" },
-    { pattern: /\bgit\s+reflog\s+expire\b/i, action: "expire reflog", severity: "high" },
-
-    // Medium risk - state-changing operations
-    { pattern: /\bgit\s+push\b/i, action: "push", severity: "medium" },
-    { pattern: /\bgit\s+commit\b/i, action: "commit", severity: "medium" },
-    { pattern: /\bgit\s+rebase\b/i, action: "rebase", severity: "medium" },
-    { pattern: /\bgit\s+merge\b/i, action: "merge", severity: "medium" },
-    { pattern: /\bgit\s+tag\b/i, action: "create/modify tag", severity: "medium" },
-    { pattern: /\bgit\s+cherry-pick\b/i, action: "cherry-pick", severity: "medium" },
-    { pattern: /\bgit\s+revert\b/i, action: "revert", severity: "medium" },
-    { pattern: /\bgit\s+am\b/i, action: "apply patches", severity: "medium" },
-
-    // GitHub CLI - all commands (medium risk)
-    { pattern: /\bgh\s+\S+/i, action: "GitHub CLI", severity: "medium" },
-  ];
+  // Pattern table built from safeGit.patterns, rebuilt when the setting changes
+  let patternTable: { key: string; patterns: GitPattern[] } | null = null;
+
+  // Commands evaluated during the current agent run, and the state of each
+  // repository before the first of them ran (for the summary on agent_end)
+  let runCommands: RunCommand[] = [];
+  let runRepos: Map<string, RepoState> = new Map();
 
   const severityIcons: Record<Severity, string> = {
     high: "🔴",
     medium: "🟡",
+    low: "🟢",
   };
 
-  // Helper to get effective config
-  function getEffectiveConfig(ctx: ExtensionContext): { enabled: boolean; promptLevel: PromptLevel } {
+  // Helper to get merged settings (defaults + settings.json)
+  function getConfig(ctx: ExtensionContext): Required<SafeGitConfig> {
     const settings = (ctx as any).settingsManager?.getSettings() ?? {};
-    const config: Required<SafeGitConfig> = {
+    return {
       ...DEFAULT_CONFIG,
       ...(settings.safeGit ?? {}),
     };
+  }
+
+  // Helper to get effective config
+  function getEffectiveConfig(ctx: ExtensionContext): { enabled: boolean; promptLevel: PromptLevel } {
+    const config = getConfig(ctx);
 
     const enabled = sessionEnabledOverride !== null ? sessionEnabledOverride : config.enabledByDefault;
     const promptLevel = sessionPromptLevelOverride !== null ? sessionPromptLevelOverride : config.promptLevel;
@@ -124,11 +292,181 @@ export default function (pi: ExtensionAPI) {
     return { enabled, promptLevel };
   }
 
+  // Helper to get the pattern table (built-ins plus safeGit.patterns). Errors
+  // are reported once per distinct setting, when it is first loaded.
+  function getPatterns(ctx: ExtensionContext): GitPattern[] {
+    const settings = (ctx as any).settingsManager?.getSettings()?.safeGit?.patterns;
+    const key = JSON.stringify(settings ?? null);
+    if (patternTable?.key === key) return patternTable.patterns;
+
+    const { patterns, errors } = buildPatternTable(settings);
+    if (errors.length > 0) {
+      ctx.ui.notify([`⚠️ safe-git: ignoring invalid custom patterns:`, ...errors.map((e) => `  ${e}`)].join("\n"), "warning");
+    }
+    patternTable = { key, patterns };
+    return patterns;
+  }
+
+  // Helper to resolve repo root, branch and persistent rules for a directory
+  async function getRepoContext(cwd: string, ctx: ExtensionContext): Promise<RepoContext> {
+    const root = await getRepoRoot(cwd);
+    const branch = root ? await getCurrentBranch(cwd) : null;
+
+    let rules: ScopedRule[] = [];
+    try {
+      rules = await loadRules(root);
+    } catch (e) {
+      ctx.ui.notify(`⚠️ ${e instanceof Error ? e.message : e}`, "warning");
+    }
+
+    return { root, branch, rules };
+  }
+
+  // Helper to get the branches a match operates on: push destinations, or the current branch
+  function matchBranches(match: EvaluatedMatch): (string | null)[] {
+    return match.pushTarget?.branches.length ? match.pushTarget.branches : [match.repo.branch];
+  }
+
+  // Helper to find the persistent rule for a match. Rules for an escalated
+  // action (e.g. "push to protected branch") apply first; block rules for the
+  // base action still apply, but its allow rules don't cover the escalation.
+  function findMatchRule(match: EvaluatedMatch): ScopedRule | null {
+    const branches = matchBranches(match);
+    const ruleFor = (action: string) => {
+      const found = branches.map((branch) => findRule(match.repo.rules, action, branch));
+      return found.find((r) => r?.decision === "block") ?? (found.every((r) => r?.decision === "allow") ? found[0] : null);
+    };
+
+    const rule = ruleFor(match.action);
+    if (rule || match.action === match.baseAction) return rule;
+
+    const baseRule = ruleFor(match.baseAction);
+    return baseRule?.decision === "block" ? baseRule : null;
+  }
+
+  // Helper to find the limited approval covering a match, dropping grants that ran out
+  function findGrant(match: EvaluatedMatch): ApprovalGrant | null {
+    const grant = sessionGrants.get(match.action);
+    if (!grant) return null;
+
+    const state = checkGrant(grant, match.repo.root, match.repo.branch);
+    if (state === "expired") sessionGrants.delete(match.action);
+    return state === "active" ? grant : null;
+  }
+
+  // Helper to record a recovery point before approved high-risk git operations run
+  async function takeSnapshots(matches: EvaluatedMatch[], command: string, ctx: ExtensionContext): Promise<void> {
+    const config = getConfig(ctx);
+    if (!config.autoSnapshot) return;
+
+    // One snapshot per repository, keeping every commit the command puts at risk
+    const byRepo = new Map<string, { actions: string[]; branch: string | null; keeps: SnapshotKeep[]; cleaned: string[] }>();
+    for (const match of matches) {
+      if (match.severity !== "high" || match.invocation.tool !== "git" || !match.repo.root) continue;
+      if (match.bypassFlags.length > 0) continue;
+      const entry = byRepo.get(match.repo.root) ?? { actions: [], branch: match.repo.branch, keeps: [], cleaned: [] };
+      entry.actions.push(match.action);
+      entry.keeps.push(...(await collectKeeps(match.invocation, match.baseAction, match.pushTarget)));
+      entry.cleaned.push(...(await collectCleaned(match.invocation, match.repo.root)));
+      byRepo.set(match.repo.root, entry);
+    }
+
+    for (const [root, { actions, branch, keeps, cleaned }] of byRepo) {
+      try {
+        const ref = await createSnapshot(root, { action: [...new Set(actions)].join(", "), command, branch, keeps, cleaned });
+        await pruneSnapshots(root, config.maxSnapshots);
+        ctx.ui.notify(`📸 Snapshot saved: ${ref} (undo with /safegit-undo)`, "info");
+      } catch (e) {
+        ctx.ui.notify(`⚠️ Could not create safety snapshot: ${e instanceof Error ? e.message : e}`, "warning");
+      }
+    }
+  }
+
+  // Helper to append one audit log entry per evaluated invocation, and
+  // note the decision in the command's run summary entry
+  async function recordDecision(
+    matches: EvaluatedMatch[],
+    run: RunCommand,
+    decision: RuleDecision,
+    decidedBy: (match: EvaluatedMatch) => DecidedBy,
+    ctx: ExtensionContext,
+    editedCommand?: string
+  ): Promise<void> {
+    // After an edit, the matches are the edited command's
+    const command = run.editedCommand ?? run.command;
+    await trackDecision(matches, run, decision, editedCommand);
+
+    const config = getConfig(ctx);
+    if (!config.auditLog) return;
+
+    const timestamp = new Date().toISOString();
+    try {
+      await appendAuditEntries(
+        config.auditLogPath,
+        matches.map((match) => ({
+          timestamp,
+          cwd: match.invocation.cwd,
+          repo: match.repo.root,
+          branch: match.repo.branch,
+          command,
+          action: match.action,
+          severity: match.severity,
+          decision,
+          decidedBy: decidedBy(match),
+          ...(editedCommand !== undefined ? { editedCommand } : {}),
+        }))
+      );
+    } catch (e) {
+      ctx.ui.notify(`⚠️ Could not write audit log: ${e instanceof Error ? e.message : e}`, "warning");
+    }
+  }
+
+  // Helper to remember a git/gh command for the end-of-run summary, before
+  // it is classified so read-only commands are listed too. Runs before the
+  // command does, so the first call per repository captures its branch and
+  // HEAD as they were.
+  async function trackRunCommand(command: string, invocations: GitInvocation[]): Promise<RunCommand> {
+    const run: RunCommand = { command, decision: "allow", actions: [...new Set(invocations.map(invocationLabel))] };
+    if (invocations.length === 0) return run;
+
+    runCommands.push(run);
+    for (const cwd of new Set(invocations.map((invocation) => invocation.cwd))) {
+      await captureRunRepo(await getRepoRoot(cwd));
+    }
+    return run;
+  }
+
+  // Helper to update a command's summary entry once safe-git decided on it.
+  // Operations found behind aliases or scripts may add the command and
+  // repositories the invocations alone didn't show.
+  async function trackDecision(
+    matches: EvaluatedMatch[],
+    run: RunCommand,
+    decision: RuleDecision,
+    editedCommand?: string
+  ): Promise<void> {
+    run.decision = decision;
+    run.actions = [...new Set(matches.map((m) => m.action))];
+    if (editedCommand !== undefined) run.editedCommand = editedCommand;
+    if (!runCommands.includes(run)) runCommands.push(run);
+
+    for (const { repo } of matches) {
+      await captureRunRepo(repo.root);
+    }
+  }
+
+  // Helper to record a repository's branch and HEAD the first time the run touches it
+  async function captureRunRepo(root: string | null): Promise<void> {
+    if (root && !runRepos.has(root)) {
+      runRepos.set(root, await captureRepoState(root));
+    }
+  }
+
   // Helper to check if severity should trigger prompt
   function shouldPrompt(severity: Severity, promptLevel: PromptLevel): boolean {
-    if (promptLevel === "none") return false;
+    if (promptLevel === "none" || severity === "low") return false;
     if (promptLevel === "high") return severity === "high";
-    return true; // "medium" prompts for both
+    return true; // "medium" prompts for medium and high
   }
 
   // Register slash commands
@@ -192,11 +530,7 @@ export default function (pi: ExtensionAPI) {
   pi.registerCommand("safegit-status", {
     description: "Show safe-git status and settings",
     handler: async (args, ctx) => {
-      const settings = (ctx as any).settingsManager?.getSettings() ?? {};
-      const globalConfig: Required<SafeGitConfig> = {
-        ...DEFAULT_CONFIG,
-        ...(settings.safeGit ?? {}),
-      };
+      const globalConfig = getConfig(ctx);
       const { enabled, promptLevel } = getEffectiveConfig(ctx);
 
       const lines = [
@@ -217,6 +551,20 @@ export default function (pi: ExtensionAPI) {
         lines.push("  (Auto-approvals reset when session ends)");
       }
 
+      // Drop grants that ran out before listing what is left of the others
+      for (const [action, grant] of sessionGrants) {
+        const root = grant.kind === "branch" ? grant.root : null;
+        const branch = root ? await getCurrentBranch(root) : null;
+        if (checkGrant(grant, root, branch) === "expired") sessionGrants.delete(action);
+      }
+      if (sessionGrants.size > 0) {
+        lines.push("");
+        lines.push("⏳ Limited auto-approvals:");
+        for (const [action, grant] of sessionGrants) {
+          lines.push(`  ✅ "git ${action}" — ${describeGrant(grant)}`);
+        }
+      }
+
       if (sessionBlockedActions.size > 0) {
         lines.push("");
         lines.push("⏱️  Auto-blocked for THIS SESSION ONLY:");
@@ -231,123 +579,772 @@ export default function (pi: ExtensionAPI) {
       lines.push("Global Defaults:");
       lines.push(`  Enabled: ${globalConfig.enabledByDefault ? "ON" : "OFF"}`);
       lines.push(`  Prompt Level: ${globalConfig.promptLevel}`);
+      lines.push(`  Protected branches: ${globalConfig.protectedBranches.join(", ") || "(none)"}`);
+      lines.push(`  Personal branches: ${globalConfig.personalBranches.join(", ") || "(none)"}`);
+      lines.push(`  Trusted remotes: ${globalConfig.trustedRemotes.join(", ") || "(none)"}`);
+      if (Array.isArray(globalConfig.patterns) && globalConfig.patterns.length > 0) {
+        lines.push(`  Custom patterns: ${globalConfig.patterns.length} (safeGit.patterns)`);
+      }
       lines.push("");
       lines.push("Prompt Levels:");
-      lines.push(`  🔴 high   - force push, hard reset, clean, delete branch`);
-      lines.push(`  🟡 medium - push, commit, rebase, merge, tag, gh CLI`);
+      lines.push(`  🔴 high   - force push, hard reset, clean, delete branch, destructive gh`);
+      lines.push(`  🟡 medium - push, commit, rebase, merge, tag, mutating gh`);
       lines.push("");
-      lines.push("Commands: /safegit /safegit-level /safegit-status");
+      lines.push("Commands: /safegit /safegit-level /safegit-status /safegit-rules /safegit-undo /safegit-log");
       lines.push("───────────────────────");
 
       ctx.ui.notify(lines.join("\n"), "info");
     },
   });
 
-  // Intercept tool calls
-  pi.on("tool_call", async (event, ctx) => {
-    if (event.toolName !== "bash") return undefined;
-
-    const { enabled, promptLevel } = getEffectiveConfig(ctx);
-    if (!enabled || promptLevel === "none") return undefined;
+  pi.registerCommand("safegit-rules", {
+    description: "List, add or remove persistent rules: [list | add <allow|block> <action> [--branch <glob>] [--global] | remove <n>]",
+    handler: async (args, ctx) => {
+      const tokens = args.trim().split(/\s+/).filter(Boolean);
+      const subcommand = (tokens.shift() ?? "list").toLowerCase();
+      const repoRoot = await getRepoRoot(ctx.cwd);
 
-    const command = event.input.command as string;
+      let rules: ScopedRule[];
+      try {
+        rules = await loadRules(repoRoot);
+      } catch (e) {
+        ctx.ui.notify(`⚠️ ${e instanceof Error ? e.message : e}`, "warning");
+        return;
+      }
 
-    // Check all patterns (first match wins - patterns ordered by severity)
-    for (const { pattern, action, severity } of gitPatterns) {
-      if (pattern.test(command)) {
-        // Check if this action is already blocked for this session
-        if (sessionBlockedActions.has(action)) {
-          ctx.ui.notify(`🚫 Git ${action} auto-blocked (session setting)`, "warning");
-          return { block: true, reason: `Git ${action} blocked by user (session setting)` };
+      if (subcommand === "list") {
+        const lines = ["─── Safe Git Rules ───", ""];
+        if (rules.length === 0) {
+          lines.push("No persistent rules.");
+        } else {
+          rules.forEach((rule, i) => {
+            lines.push(`  ${i + 1}. [${rule.scope}] ${describeRule(rule)}`);
+          });
         }
+        const ignored = await ignoredProjectRules(repoRoot);
+        if (ignored.length > 0) {
+          lines.push("");
+          lines.push(`Ignored (allow rules in ${projectRulesPath(repoRoot!)} don't count):`);
+          for (const rule of ignored) lines.push(`  - ${describeRule(rule)}`);
+        }
+        lines.push("");
+        lines.push("Repo and global rules: ~/.pi/agent/safe-git.json");
+        lines.push(`Project rules (block only): ${repoRoot ? projectRulesPath(repoRoot) : "(not in a git repository)"}`);
+        lines.push("");
+        lines.push("Usage: /safegit-rules add <allow|block> <action> [--branch <glob>] [--global]");
+        lines.push("       /safegit-rules remove <n>");
+        lines.push("──────────────────────");
+        ctx.ui.notify(lines.join("\n"), "info");
+        return;
+      }
+
+      if (subcommand === "add") {
+        let decision: RuleDecision | undefined;
+        let scope: RuleScope | undefined;
+        let branch: string | undefined;
+        const actionWords: string[] = [];
 
-        // Check if this action is already approved for this session
-        if (sessionApprovedActions.has(action)) {
-          ctx.ui.notify(`✅ Git ${action} auto-approved (session setting)`, "info");
-          return undefined;
+        for (let i = 0; i < tokens.length; i++) {
+          const token = tokens[i];
+          if (!decision && (token === "allow" || token === "block")) {
+            decision = token;
+          } else if (token === "--global") {
+            scope = "global";
+          } else if (token === "--branch" && i + 1 < tokens.length) {
+            branch = tokens[++i];
+          } else if (token.startsWith("--branch=")) {
+            branch = token.slice("--branch=".length);
+          } else {
+            actionWords.push(token);
+          }
         }
 
-        // Check if this severity level should trigger a prompt
-        if (!shouldPrompt(severity, promptLevel)) {
-          return undefined;
+        const baseActions = [...new Set(getPatterns(ctx).map((p) => p.action))];
+        const escalatedActions = [
+          ...["push", "force push", "push --delete", "push --mirror"].flatMap((a) => [a + PROTECTED_SUFFIX, a + UNTRUSTED_SUFFIX]),
+          ...REWRITE_ACTIONS.map((a) => a + PUBLISHED_SUFFIX),
+        ];
+        const knownActions = ["*", ...baseActions, ...escalatedActions];
+        let action = actionWords.join(" ");
+        const interactive = !decision || !action;
+
+        if (!decision) {
+          const choice = await ctx.ui.select("Rule decision:", ["✅ allow", "🚫 block", "❌ Cancel"]);
+          if (!choice || choice.startsWith("❌")) {
+            ctx.ui.notify("Cancelled.", "info");
+            return;
+          }
+          decision = choice.endsWith("allow") ? "allow" : "block";
         }
 
-        const icon = severityIcons[severity];
+        if (!action) {
+          const choice = await ctx.ui.select("Git action:", [...knownActions, "❌ Cancel"]);
+          if (!choice || choice.startsWith("❌")) {
+            ctx.ui.notify("Cancelled.", "info");
+            return;
+          }
+          action = choice;
+        }
 
-        // In non-interactive mode (headless, RPC, print mode), block entirely
-        if (!ctx.hasUI) {
-          return {
-            block: true,
-            reason: `Git ${action} blocked: requires explicit user approval (no UI available)`,
-          };
+        if (!knownActions.includes(action)) {
+          ctx.ui.notify(`Unknown action "${action}". Known actions: ${knownActions.join(", ")}`, "warning");
+          return;
         }
 
-        // Interactive mode: ask for confirmation with option to approve all for session
-        const title =
-          severity === "high"
-            ? `${icon} ⚠️ HIGH RISK: Git ${action} requires approval`
-            : `${icon} Git ${action} requires approval`;
+        if (interactive && branch === undefined) {
+          const input = await ctx.ui.input("Branch pattern (leave empty for any branch):", "main, release/*");
+          branch = input?.trim() || undefined;
+        }
 
-        // Trigger notifications BEFORE showing the confirmation prompt.
-        // We execute notifications asynchronously to prevent any delay in showing the prompt,
-        // while awaiting window focus to ensure the prompt is seen.
-        if (notifyConfig && (notifyConfig.beep || notifyConfig.bringToFront || notifyConfig.say)) {
-          // 1. Fire OS X notification with sound (fire-and-forget, next tick)
-          if (notifyConfig.beep) {
-            setTimeout(
-              () =>
-                notifyConfig &&
-                displayOSXNotification("Git approval required", notifyConfig.beepSound, terminalInfo),
-              0
-            );
+        if (!scope) {
+          if (interactive && repoRoot) {
+            const choice = await ctx.ui.select("Save rule for:", ["📁 This repository", "🌐 All repositories (global)"]);
+            if (!choice) {
+              ctx.ui.notify("Cancelled.", "info");
+              return;
+            }
+            scope = choice.startsWith("🌐") ? "global" : "repo";
+          } else {
+            scope = repoRoot ? "repo" : "global";
           }
+        }
 
-          if (notifyConfig.say) {
-            setTimeout(() => speakMessage("{session dir} needs your attention"), 0);
-          }
+        const rule = { action, decision, ...(branch ? { branch } : {}) };
+        try {
+          const filePath = await addRule(scope, repoRoot, rule);
+          ctx.ui.notify(`💾 Added ${scope} rule: ${describeRule(rule)}`, "info");
+          ctx.ui.notify(`Saved to ${filePath}`, "info");
+        } catch (e) {
+          ctx.ui.notify(`⚠️ Could not save rule: ${e instanceof Error ? e.message : e}`, "warning");
+        }
+        return;
+      }
+
+      if (subcommand === "remove" || subcommand === "rm") {
+        if (rules.length === 0) {
+          ctx.ui.notify("No persistent rules to remove.", "info");
+          return;
+        }
 
-          // 2. Bring to front (await if enabled)
-          if (notifyConfig.bringToFront) {
-            await bringTerminalToFront(terminalInfo);
+        let target: ScopedRule | undefined;
+        if (tokens[0]) {
+          target = rules[parseInt(tokens[0], 10) - 1];
+          if (!target) {
+            ctx.ui.notify(`No rule #${tokens[0]} (see /safegit-rules list)`, "warning");
+            return;
+          }
+        } else {
+          const options = rules.map((rule, i) => `${i + 1}. [${rule.scope}] ${describeRule(rule)}`);
+          const choice = await ctx.ui.select("Remove rule:", [...options, "❌ Cancel"]);
+          if (!choice || choice.startsWith("❌")) {
+            ctx.ui.notify("Cancelled.", "info");
+            return;
           }
+          target = rules[options.indexOf(choice)];
+        }
+
+        const removed = await removeRule(target.scope, repoRoot, target.index);
+        if (removed) {
+          ctx.ui.notify(`🗑️  Removed ${target.scope} rule: ${describeRule(removed)}`, "info");
+        } else {
+          ctx.ui.notify("Rule not found (file changed?). Run /safegit-rules list.", "warning");
         }
+        return;
+      }
+
+      ctx.ui.notify("Usage: /safegit-rules [list | add <allow|block> <action> [--branch <glob>] [--global] | remove <n>]", "info");
+    },
+  });
+
+  pi.registerCommand("safegit-undo", {
+    description: "List and restore safety snapshots taken before high-risk git operations",
+    handler: async (args, ctx) => {
+      const repoRoot = await getRepoRoot(ctx.cwd);
+      if (!repoRoot) {
+        ctx.ui.notify("Not inside a git repository.", "warning");
+        return;
+      }
+
+      const snapshots = await listSnapshots(repoRoot);
+      if (snapshots.length === 0) {
+        ctx.ui.notify("No safe-git snapshots in this repository.", "info");
+        return;
+      }
+
+      const describe = (s: Snapshot, i: number) =>
+        `${i + 1}. ${new Date(s.date).toLocaleString()} — ${s.action}: ${s.command.slice(0, 60)}`;
+
+      if (args.trim() === "list") {
+        ctx.ui.notify(
+          ["─── Safe Git Snapshots ───", "", ...snapshots.map((s, i) => `  ${describe(s, i)}`), "", "Restore with /safegit-undo"].join("\n"),
+          "info"
+        );
+        return;
+      }
+
+      const options = snapshots.map(describe);
+      const picked = await ctx.ui.select("Restore which snapshot?", [...options, "❌ Cancel"]);
+      if (!picked || picked.startsWith("❌")) {
+        ctx.ui.notify("Cancelled.", "info");
+        return;
+      }
+      const snapshot = snapshots[options.indexOf(picked)];
+
+      const currentHead = await runGit(["rev-parse", "--verify", "--quiet", "HEAD"], repoRoot);
+      const short = (sha: string) => sha.slice(0, 8);
 
-        const choice = await ctx.ui.select(title, [
-          "✅ Allow this command once",
-          "⏭️  Decline this time (ask again later)",
-          `✅✅ Auto-approve all "git ${action}" for this session only`,
-          `🚫 Auto-block all "git ${action}" for this session only`,
-        ]);
-
-        if (!choice || choice.startsWith("⏭️")) {
-          // Decline this time - block the command but don't add to blocked list
-          ctx.ui.notify(`Git ${action} declined`, "info");
-          return { block: true, reason: `Git ${action} declined by user` };
+      // Restoring overwrites files, so snapshot the current state first
+      const restoreFiles = async (moveHeadBack: boolean) => {
+        const backup = await createSnapshot(repoRoot, {
+          action: "before /safegit-undo",
+          command: `/safegit-undo ${snapshot.ref}`,
+          branch: await getCurrentBranch(repoRoot),
+          keeps: [],
+        });
+        if (moveHeadBack && snapshot.head) {
+          await execGit(["reset", "--mixed", "-q", snapshot.head], repoRoot);
         }
+        await restoreSnapshotFiles(repoRoot, snapshot);
+        ctx.ui.notify(`✅ Restored files from ${snapshot.ref}`, "info");
+        ctx.ui.notify(`📸 Previous state saved as ${backup}`, "info");
+      };
 
-        if (choice.startsWith("🚫")) {
-          // Block this action type for the entire session
-          sessionBlockedActions.add(action);
-          ctx.ui.notify(`🚫 All "git ${action}" commands auto-blocked for this session`, "warning");
-          ctx.ui.notify(`⏱️  Auto-block will reset when session ends`, "info");
-          return { block: true, reason: `Git ${action} blocked by user (session setting)` };
+      const actions: { label: string; run: () => Promise<void> }[] = [
+        { label: "📂 Restore working tree files from snapshot", run: () => restoreFiles(false) },
+      ];
+      if (snapshot.head && snapshot.head !== currentHead) {
+        actions.push({
+          label: `⏪ Move ${snapshot.branch ?? "HEAD"} back to ${short(snapshot.head)} and restore files`,
+          run: () => restoreFiles(true),
+        });
+      }
+      for (const keep of snapshot.keeps) {
+        if (keep.kind === "branch") {
+          actions.push({
+            label: `🌿 Recreate branch ${keep.name} at ${short(keep.sha)}`,
+            run: async () => {
+              await execGit(["branch", keep.name, keep.sha], repoRoot);
+              ctx.ui.notify(`🌿 Recreated branch ${keep.name} at ${short(keep.sha)}`, "info");
+            },
+          });
+        } else if (keep.kind === "stash") {
+          actions.push({
+            label: `📦 Restore stash entry ${keep.name} (${short(keep.sha)})`,
+            run: async () => {
+              await execGit(["stash", "store", "-m", `restored by safe-git (${keep.name})`, keep.sha], repoRoot);
+              ctx.ui.notify(`📦 Restored stash entry as stash@{0}`, "info");
+            },
+          });
+        } else {
+          actions.push({
+            label: `🛰️  Show previous ${keep.name} at ${short(keep.sha)}`,
+            run: async () => {
+              const log = await runGit(["log", "--oneline", "-10", keep.sha], repoRoot);
+              const [remote, ...branch] = keep.name.split("/");
+              ctx.ui.notify(
+                [
+                  `${keep.name} was at ${keep.sha} before the push:`,
+                  log ?? "",
+                  "",
+                  `Recover with: git push --force-with-lease ${remote} ${keep.sha}:refs/heads/${branch.join("/")}`,
+                ].join("\n"),
+                "info"
+              );
+            },
+          });
         }
+      }
+      actions.push({
+        label: "🗑️  Delete this snapshot",
+        run: async () => {
+          await deleteSnapshot(repoRoot, snapshot.ref);
+          ctx.ui.notify(`🗑️  Deleted ${snapshot.ref}`, "info");
+        },
+      });
+
+      const labels = actions.map((a) => a.label);
+      const choice = await ctx.ui.select(`Snapshot: ${snapshot.action}`, [...labels, "❌ Cancel"]);
+      if (!choice || choice.startsWith("❌")) {
+        ctx.ui.notify("Cancelled.", "info");
+        return;
+      }
+
+      try {
+        await actions[labels.indexOf(choice)].run();
+      } catch (e) {
+        ctx.ui.notify(`⚠️ Undo failed: ${e instanceof Error ? e.message : e}`, "warning");
+      }
+    },
+  });
 
-        if (choice.startsWith("✅✅")) {
-          // Approve this action type for the entire session
-          sessionApprovedActions.add(action);
-          ctx.ui.notify(`✅ All "git ${action}" commands auto-approved for this session`, "info");
-          ctx.ui.notify(`⏱️  Auto-approval will reset when session ends`, "info");
+  pi.registerCommand("safegit-log", {
+    description: "Show the audit log: [allow|block] [--by <who>] [--since <date>] [--before <date>] [--limit <n>]",
+    handler: async (args, ctx) => {
+      const config = getConfig(ctx);
+      const usage =
+        "Usage: /safegit-log [allow|block] [--by <user|session-rule|persistent-rule|non-interactive|config|auto>] [--since <date>] [--before <date>] [--limit <n>]";
+
+      // Parse filters; dates accept "today", "yesterday", "2h", "3d", "2025-01-31", ...
+      const tokens = args.trim().split(/\s+/).filter(Boolean);
+      const filter: AuditFilter = {};
+      let limit = 20;
+      for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        const value = tokens[i + 1];
+        if (token === "allow" || token === "block") {
+          filter.decision = token;
+        } else if (token === "--by" && DECIDED_BY_VALUES.includes(value as DecidedBy)) {
+          filter.decidedBy = value as DecidedBy;
+          i++;
+        } else if ((token === "--since" || token === "--before") && value && parseDateArg(value)) {
+          filter[token === "--since" ? "since" : "before"] = parseDateArg(value)!;
+          i++;
+        } else if (token === "--limit" && Number(value) > 0) {
+          limit = Number(value);
+          i++;
         } else {
-          // Approve just this once
-          ctx.ui.notify(`Git ${action} approved once`, "info");
+          ctx.ui.notify(`Invalid argument "${token}"${value ? ` ${value}` : ""}\n${usage}`, "warning");
+          return;
+        }
+      }
+
+      const entries = filterAuditEntries(await readAuditLog(config.auditLogPath), filter);
+      const shown = entries.slice(-limit);
+
+      const lines = ["─── Safe Git Audit Log ───", ""];
+      if (shown.length === 0) {
+        lines.push(config.auditLog ? "No matching entries." : "Audit log is disabled (safeGit.auditLog).");
+      } else {
+        for (const entry of shown) {
+          const icon = entry.decision === "allow" ? "✅" : "🚫";
+          const where = [entry.branch, entry.repo ?? entry.cwd].filter(Boolean).join(" @ ");
+          lines.push(
+            `${icon} ${new Date(entry.timestamp).toLocaleString()} ${severityIcons[entry.severity] ?? ""} ${entry.action} — ${entry.decision} (${entry.decidedBy})`
+          );
+          lines.push(`     ${entry.command.replace(/\n/g, " ").slice(0, 80)}${where ? `  [${where}]` : ""}`);
+          if (entry.editedCommand) {
+            lines.push(`     ✏️  ran instead: ${entry.editedCommand.replace(/\n/g, " ").slice(0, 80)}`);
+          }
+        }
+      }
+      lines.push("");
+      lines.push(`Showing ${shown.length} of ${entries.length} matching entries`);
+      lines.push(`Log: ${config.auditLogPath}`);
+      lines.push(usage);
+      lines.push("──────────────────────────");
+
+      ctx.ui.notify(lines.join("\n"), "info");
+    },
+  });
+
+  // Intercept tool calls
+  pi.on("tool_call", async (event, ctx) => {
+    if (event.toolName !== "bash") return undefined;
+
+    const { enabled, promptLevel } = getEffectiveConfig(ctx);
+    if (!enabled) return undefined;
+
+    const command = event.input.command as string;
+    const run = await trackRunCommand(command, findGitInvocations(command, ctx.cwd));
+    if (promptLevel === "none") return undefined;
+
+    return checkCommand(command, run, ctx);
+  });
+
+  // Helper to decide on a command: rules and approvals first, then the
+  // user. A command the user edits in the prompt is decided on the same way.
+  async function checkCommand(command: string, run: RunCommand, ctx: ExtensionContext): Promise<CommandCheck> {
+    const { promptLevel } = getEffectiveConfig(ctx);
+
+    // Classify every git/gh invocation in the command (most severe first),
+    // plus those hidden behind git aliases, package.json scripts and shell scripts
+    const config = getConfig(ctx);
+    const patterns = getPatterns(ctx);
+    const matches: (GitMatch & { via?: string[] })[] = [
+      ...classifyCommand(command, ctx.cwd, patterns),
+      ...(await findHiddenOperations(command, ctx.cwd, patterns, { scanScripts: config.scanScripts })),
+    ];
+    if (matches.length === 0) return undefined;
+
+    // Resolve repository context, push targets and persistent rules for each invocation
+    const branchPolicy = {
+      protectedBranches: expandBranchPatterns(config.protectedBranches),
+      personalBranches: expandBranchPatterns(config.personalBranches),
+      trustedRemotes: config.trustedRemotes,
+    };
+    const repoContexts = new Map<string, RepoContext>();
+    const evaluated: EvaluatedMatch[] = [];
+    for (const match of matches) {
+      const cwd = match.invocation.cwd;
+      if (!repoContexts.has(cwd)) repoContexts.set(cwd, await getRepoContext(cwd, ctx));
+      const repo = repoContexts.get(cwd)!;
+
+      const entry: EvaluatedMatch = {
+        ...match,
+        baseAction: match.action,
+        repo,
+        rule: null,
+        pushTarget: null,
+        via: match.via ?? [],
+        bypassFlags: [],
+        notes: [],
+      };
+      if (repo.root && match.invocation.tool === "git" && match.invocation.args[0] === "push") {
+        const target = await resolvePushTarget(match.invocation, repo.branch);
+        const risk = scorePush(match, target, branchPolicy);
+        Object.assign(entry, { action: risk.action, severity: risk.severity, pushTarget: target, notes: risk.notes });
+      } else if (repo.root) {
+        // Amend/rebase/filter-branch/replace of commits already on a remote
+        const rewrite = await findPublishedRewrite(match.invocation);
+        if (rewrite) {
+          Object.assign(entry, { action: match.action + PUBLISHED_SUFFIX, severity: "high" });
+          entry.notes.push(describePublishedRewrite(rewrite));
+        }
+      }
+      if (entry.via.length > 0) entry.notes.push(`via ${entry.via.join(" → ")}`);
+      entry.rule = findMatchRule(entry);
+      evaluated.push(entry);
+
+      // Hook/signing bypass flags are a separate high-risk operation on the same invocation
+      const bypassFlags = findBypassFlags(match.invocation);
+      if (bypassFlags.length > 0) {
+        const bypass: EvaluatedMatch = {
+          ...entry,
+          action: BYPASS_ACTION,
+          baseAction: BYPASS_ACTION,
+          severity: "high",
+          bypassFlags,
+          notes: [`${entry.action} with ${bypassFlags.join(", ")}`],
+        };
+        bypass.rule = findMatchRule(bypass);
+        evaluated.push(bypass);
+      }
+    }
+
+    // Escalation or downgrade may have changed the order; bypasses lead their severity
+    const isBypass = (match: EvaluatedMatch) => match.bypassFlags.length > 0;
+    evaluated.sort(
+      (a, b) => severityRank[b.severity] - severityRank[a.severity] || Number(isBypass(b)) - Number(isBypass(a))
+    );
+
+    // A session block on any invocation blocks the whole command
+    const blocked = evaluated.find(({ action }) => sessionBlockedActions.has(action));
+    if (blocked) {
+      await recordDecision(evaluated, run, "block", () => "session-rule", ctx);
+      ctx.ui.notify(`🚫 Git ${blocked.action} auto-blocked (session setting)`, "warning");
+      return {
+        block: true,
+        reason: `Git ${blocked.action} blocked by user (session setting)${isBypass(blocked) ? `. ${BYPASS_ADVICE}` : ""}`,
+      };
+    }
+
+    // Persistent block rules apply the same way
+    const ruleBlocked = evaluated.find(({ rule }) => rule?.decision === "block");
+    if (ruleBlocked) {
+      const { action, rule } = ruleBlocked;
+      await recordDecision(evaluated, run, "block", () => "persistent-rule", ctx);
+      ctx.ui.notify(`🚫 Git ${action} blocked (${rule!.scope} rule)`, "warning");
+      return {
+        block: true,
+        reason: `Git ${action} blocked by persistent ${rule!.scope} rule: ${describeRule(rule!)}${isBypass(ruleBlocked) ? `. ${BYPASS_ADVICE}` : ""}`,
+      };
+    }
+
+    // Bypass flags are blocked outright when configured
+    const configBlocked = evaluated.find(isBypass);
+    if (configBlocked && config.hookBypass === "block") {
+      await recordDecision(evaluated, run, "block", () => "config", ctx);
+      ctx.ui.notify(`🚫 Git ${BYPASS_ACTION} blocked: ${configBlocked.bypassFlags.join(", ")}`, "warning");
+      return {
+        block: true,
+        reason: `Git ${BYPASS_ACTION} blocked by safe-git (hookBypass: "block"): ${configBlocked.bypassFlags.join(", ")}. ${BYPASS_ADVICE}`,
+      };
+    }
+
+    // Skip invocations already approved for this session or by a persistent
+    // rule. Bypasses are never auto-approved. A count-limited grant is used
+    // once per command, however many invocations it covers.
+    const pending: EvaluatedMatch[] = [];
+    const approvalNotes = new Set<string>();
+    const allowedBy = new Map<EvaluatedMatch, DecidedBy>();
+    const usedCounts = new Map<string, ApprovalGrant>();
+    for (const match of evaluated) {
+      const grant = isBypass(match) ? null : (usedCounts.get(match.action) ?? findGrant(match));
+      if (isBypass(match)) {
+        pending.push(match);
+      } else if (sessionApprovedActions.has(match.action)) {
+        approvalNotes.add(`✅ Git ${match.action} auto-approved (session setting)`);
+        allowedBy.set(match, "session-rule");
+      } else if (grant) {
+        if (grant.kind === "count" && !usedCounts.has(match.action)) {
+          if (useGrant(grant)) sessionGrants.delete(match.action);
+          usedCounts.set(match.action, grant);
         }
+        approvalNotes.add(`✅ Git ${match.action} auto-approved (${describeGrant(grant)})`);
+        allowedBy.set(match, "session-rule");
+      } else if (match.rule?.decision === "allow") {
+        approvalNotes.add(`✅ Git ${match.action} auto-approved (${match.rule.scope} rule)`);
+        allowedBy.set(match, "persistent-rule");
+      } else {
+        pending.push(match);
+      }
+    }
+    for (const note of approvalNotes) {
+      ctx.ui.notify(note, "info");
+    }
+
+    // Low-risk operations pass; downgraded ones (e.g. pushes to personal
+    // branches) say why, read-only gh queries pass silently
+    for (const match of pending.filter(({ severity, notes }) => severity === "low" && notes.length > 0)) {
+      ctx.ui.notify(`${severityIcons.low} Git ${match.action} allowed (${match.notes.join("; ")})`, "info");
+    }
+
+    // Check if any remaining severity level should trigger a prompt
+    const promptable = pending.filter(({ severity }) => shouldPrompt(severity, promptLevel));
+    const decidedBy = (match: EvaluatedMatch) => allowedBy.get(match) ?? (promptable.includes(match) ? "user" : "auto");
+    if (promptable.length === 0) {
+      await recordDecision(evaluated, run, "allow", decidedBy, ctx);
+      await takeSnapshots(evaluated, command, ctx);
+      return undefined;
+    }
+
+    const { action, baseAction, severity, invocation, repo, pushTarget, notes } = promptable[0];
+    const icon = severityIcons[severity];
+
+    // Block reasons for a bypass tell the agent to fix the hook failure instead
+    const bypassing = promptable.some(isBypass);
+    const advice = bypassing ? `. ${BYPASS_ADVICE}` : "";
+
+    // In non-interactive mode (headless, RPC, print mode) nobody can answer
+    // the prompt: block, unless nonInteractivePolicy allows every operation.
+    // Bypasses are always blocked.
+    if (!ctx.hasUI) {
+      if (!hasPolicy(config.nonInteractivePolicy) || bypassing) {
+        await recordDecision(evaluated, run, "block", () => "non-interactive", ctx);
+        return {
+          block: true,
+          reason: `Git ${action} blocked: requires explicit user approval (no UI available)${advice}`,
+        };
+      }
+
+      for (const match of promptable) {
+        const branches = matchBranches(match);
+        const policy = evaluatePolicy(config.nonInteractivePolicy, match.action, match.baseAction, branches);
+        if (policy.allowed) continue;
+
+        await recordDecision(evaluated, run, "block", () => "non-interactive", ctx);
+        const on = branches.filter(Boolean).join(", ");
+        return {
+          block: true,
+          reason: policy.entry
+            ? `Git ${match.action} blocked by ${policy.entry} (no UI available)`
+            : `Git ${match.action}${on ? ` on ${on}` : ""} blocked: no nonInteractivePolicy allow entry matches (no UI available)`,
+        };
+      }
+
+      await recordDecision(
+        evaluated,
+        run,
+        "allow",
+        (match) => allowedBy.get(match) ?? (promptable.includes(match) ? "non-interactive" : "auto"),
+        ctx
+      );
+      await takeSnapshots(evaluated, command, ctx);
+      return undefined;
+    }
+
+    // Mention any other protected operations in the same command
+    const others = [...new Set(promptable.slice(1).map((m) => m.action))].filter((a) => a !== action);
+    const alsoNote = others.length > 0 ? ` (also: ${others.join(", ")})` : "";
+
+    // Show where the operation lands: source → remote/branch for pushes, current branch otherwise
+    const where = pushTarget
+      ? ` [${describePushTarget(pushTarget, repo.branch)}]`
+      : repo.branch
+        ? ` [on ${repo.branch}]`
+        : "";
+    const why = notes.length > 0 ? ` — ${notes.join("; ")}` : "";
+
+    // Interactive mode: ask for confirmation with option to approve all for session
+    const title =
+      severity === "high"
+        ? `${icon} ⚠️ HIGH RISK: Git ${action} requires approval${where}${alsoNote}${why}`
+        : `${icon} Git ${action} requires approval${where}${alsoNote}${why}`;
+
+    // List operations found inside aliases and scripts, which the command line doesn't show
+    const hidden = promptable.filter((m) => m.via.length > 0);
+    if (hidden.length > 0) {
+      ctx.ui.notify(
+        [
+          "🔎 Git operations inside aliases/scripts:",
+          ...hidden.map((m) => `  ${severityIcons[m.severity]} ${m.action}: ${m.invocation.normalized} (via ${m.via.join(" → ")})`),
+        ].join("\n"),
+        "warning"
+      );
+    }
+
+    // Show what a destructive operation would discard, from read-only git commands
+    if (config.showPreview) {
+      const preview = await buildPreview(invocation, baseAction, pushTarget);
+      if (preview) {
+        ctx.ui.notify([`${icon} Preview: git ${action} on ${invocation.cwd}`, ...preview].join("\n"), "warning");
+      }
+    }
+
+    // Trigger notifications BEFORE showing the confirmation prompt.
+    // We execute notifications asynchronously to prevent any delay in showing the prompt,
+    // while awaiting window focus to ensure the prompt is seen.
+    if (notifyConfig && (notifyConfig.beep || notifyConfig.bringToFront || notifyConfig.say)) {
+      // 1. Fire OS X notification with sound (fire-and-forget, next tick)
+      if (notifyConfig.beep) {
+        setTimeout(
+          () =>
+            notifyConfig &&
+            displayOSXNotification("Git approval required", notifyConfig.beepSound, terminalInfo),
+          0
+        );
+      }
+
+      if (notifyConfig.say) {
+        setTimeout(() => speakMessage("{session dir} needs your attention"), 0);
+      }
+
+      // 2. Bring to front (await if enabled)
+      if (notifyConfig.bringToFront) {
+        await bringTerminalToFront(terminalInfo);
+      }
+    }
+
+    const options = [
+      "✅ Allow this command once",
+      "⏭️  Decline this time (ask again later)",
+      "✏️  Edit the command, then run it",
+    ];
+    // Bypasses ask every time, so there is nothing to auto-approve
+    if (action !== BYPASS_ACTION) {
+      options.push(`✅✅ Auto-approve all "git ${action}" for this session only`);
+      options.push(`⏱️  Auto-approve "git ${action}" for the next ${config.approvalMinutes} minutes`);
+      options.push(`🔢 Auto-approve the next few "git ${action}" commands (asks how many)`);
+      if (repo.root && repo.branch) {
+        options.push(`🌿 Auto-approve "git ${action}" until the branch changes (now ${repo.branch})`);
+      }
+      if (repo.root) {
+        options.push(`💾 Always allow "git ${action}" in this repo (remember)`);
+      }
+    }
+    options.push(`🚫 Auto-block all "git ${action}" for this session only`);
+
+    const choice = await ctx.ui.select(title, options);
+
+    if (!choice || choice.startsWith("⏭️")) {
+      // Decline this time - block the command but don't add to blocked list
+      await recordDecision(evaluated, run, "block", () => "user", ctx);
+      ctx.ui.notify(`Git ${action} declined`, "info");
+      return { block: true, reason: `Git ${action} declined by user${advice}` };
+    }
 
-        return undefined;
+    if (choice.startsWith("✏️")) {
+      // Let the user fix the command (e.g. --force → --force-with-lease) and
+      // run the edited version instead, like safe-rm's command rewrite
+      const edited = (await ctx.ui.editor("Edit the command (it is checked again once saved):", command))?.trim();
+      if (!edited || edited === command.trim()) {
+        await recordDecision(evaluated, run, "block", () => "user", ctx);
+        ctx.ui.notify(`Edit cancelled, git ${action} declined`, "info");
+        return { block: true, reason: `Git ${action} declined by user${advice}` };
       }
+
+      // The edited command may still be risky (or riskier): it goes through
+      // the same checks, and is asked about again if it needs approval
+      await recordDecision(evaluated, run, "allow", decidedBy, ctx, edited);
+      // The summary lists what runs instead, even when nothing in it is risky
+      run.actions = [...new Set(findGitInvocations(edited, ctx.cwd).map(invocationLabel))];
+      const check = await checkCommand(edited, run, ctx);
+      if (check?.block) return check;
+
+      // The user may have edited it again when asked again
+      const ran = check?.command ?? edited;
+      if (!check) ctx.ui.notify(`✏️  Running edited command:\n${ran}`, "info");
+      return {
+        command: ran,
+        reason: `safe-git: user edited the command before approving it. Original: ${command} | Ran instead: ${ran}`,
+      };
     }
 
+    if (choice.startsWith("🚫")) {
+      // Block this action type for the entire session
+      sessionBlockedActions.add(action);
+      sessionGrants.delete(action);
+      await recordDecision(evaluated, run, "block", () => "user", ctx);
+      ctx.ui.notify(`🚫 All "git ${action}" commands auto-blocked for this session`, "warning");
+      ctx.ui.notify(`⏱️  Auto-block will reset when session ends`, "info");
+      return { block: true, reason: `Git ${action} blocked by user (session setting)${advice}` };
+    }
+
+    if (choice.startsWith("💾")) {
+      // Persist an allow rule for this repository
+      try {
+        const filePath = await addRule("repo", repo.root, { action, decision: "allow" });
+        ctx.ui.notify(`💾 "git ${action}" will always be allowed in this repo`, "info");
+        ctx.ui.notify(`Saved to ${filePath} (manage with /safegit-rules)`, "info");
+      } catch (e) {
+        ctx.ui.notify(`⚠️ Could not save rule: ${e instanceof Error ? e.message : e}`, "warning");
+        ctx.ui.notify(`Git ${action} approved once`, "info");
+      }
+    } else if (choice.startsWith("✅✅")) {
+      // Approve this action type for the entire session
+      sessionApprovedActions.add(action);
+      ctx.ui.notify(`✅ All "git ${action}" commands auto-approved for this session`, "info");
+      ctx.ui.notify(`⏱️  Auto-approval will reset when session ends`, "info");
+    } else if (choice.startsWith("⏱️")) {
+      // Approve this action type until the deadline
+      sessionGrants.set(action, { kind: "time", expiresAt: Date.now() + config.approvalMinutes * 60_000 });
+      ctx.ui.notify(`⏱️  "git ${action}" auto-approved for the next ${config.approvalMinutes} minutes`, "info");
+    } else if (choice.startsWith("🔢")) {
+      // Approve this command and a number of further ones
+      const input = await ctx.ui.input(`Auto-approve how many more "git ${action}" commands?`, "5");
+      const uses = Number(input?.trim());
+      if (Number.isInteger(uses) && uses > 0) {
+        sessionGrants.set(action, { kind: "count", remaining: uses });
+        ctx.ui.notify(`🔢 The next ${uses} "git ${action}" command(s) will be auto-approved`, "info");
+      } else {
+        ctx.ui.notify(`Git ${action} approved once${input?.trim() ? ` (not a positive number: ${input.trim()})` : ""}`, "info");
+      }
+    } else if (choice.startsWith("🌿")) {
+      // Approve this action type while the repository stays on this branch
+      sessionGrants.set(action, { kind: "branch", root: repo.root!, branch: repo.branch! });
+      ctx.ui.notify(`🌿 "git ${action}" auto-approved while ${repo.root} is on ${repo.branch}`, "info");
+    } else {
+      // Approve just this once
+      ctx.ui.notify(`Git ${action} approved once`, "info");
+    }
+
+    await recordDecision(evaluated, run, "allow", decidedBy, ctx);
+    await takeSnapshots(evaluated, command, ctx);
     return undefined;
+  }
+
+  // Summarize the git/gh operations of the agent run that just finished
+  pi.on("agent_end", async (_event, ctx) => {
+    const commands = runCommands;
+    const repos = runRepos;
+    runCommands = [];
+    runRepos = new Map();
+
+    const config = getConfig(ctx);
+    if (commands.length === 0 || !config.runSummary) return;
+
+    const changes: RepoChange[] = [];
+    for (const before of repos.values()) {
+      const change = await diffRepoState(before);
+      if (change) changes.push(change);
+    }
+
+    const lines = formatRunSummary(commands, changes);
+    ctx.ui.notify(lines.join("\n"), "info");
+
+    if (config.saveRunSummary) {
+      pi.appendEntry(SUMMARY_ENTRY_TYPE, { commands, changes, summary: lines.join("\n") });
+    }
   });
 
   // Reset session state on new session
@@ -358,6 +1355,13 @@ export default function (pi: ExtensionAPI) {
     sessionPromptLevelOverride = null;
     sessionApprovedActions.clear();
     sessionBlockedActions.clear();
+    sessionGrants.clear();
+    runCommands = [];
+    runRepos = new Map();
+
+    // Validate custom patterns up front so mistakes surface at load time
+    patternTable = null;
+    getPatterns(ctx);
 
     // Initialize terminal detection and notifications
     terminalInfo = await detectTerminalInfo();
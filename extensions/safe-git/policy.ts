@@ -0,0 +1,92 @@
+/**
+ * Non-interactive policy for safe-git
+ *
+ * Without a UI (print/RPC mode) nobody can answer the approval prompt, so
+ * prompted operations are blocked. `safeGit.nonInteractivePolicy` lets
+ * headless runs allow specific operations instead:
+ *
+ * "nonInteractivePolicy": {
+ *   "allow": [
+ *     { "action": "commit", "branch": "agent/*" },
+ *     { "action": "push", "branch": "agent/*" }
+ *   ],
+ *   "deny": [
+ *     { "action": "force push" }
+ *   ]
+ * }
+ *
+ * Deny entries win over allow entries, and anything no allow entry covers
+ * stays blocked. `action` and `branch` match the same way as persistent
+ * rules (see rules.ts). For pushes, `branch` is matched against every
+ * destination branch; otherwise against the current branch.
+ */
+
+import { globToRegExp } from "./rules";
+
+export interface PolicyEntry {
+  action: string;
+  branch?: string;
+}
+
+export interface NonInteractivePolicy {
+  allow?: PolicyEntry[];
+  deny?: PolicyEntry[];
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  /** The policy entry that decided, e.g. `nonInteractivePolicy.deny[0] ("force push")`; null when none matched */
+  entry: string | null;
+}
+
+/**
+ * Decide an operation under the policy. `baseAction` is the action before
+ * branch/remote escalation: deny entries for it still apply, allow entries
+ * don't cover the escalation.
+ */
+export function evaluatePolicy(
+  policy: NonInteractivePolicy,
+  action: string,
+  baseAction: string,
+  branches: (string | null)[]
+): PolicyDecision {
+  const allow = validEntries(policy.allow);
+  const deny = validEntries(policy.deny);
+
+  const matches = (entry: PolicyEntry, actions: string[], branch: string | null) =>
+    (entry.action === "*" || actions.includes(entry.action)) &&
+    (!entry.branch || (branch !== null && globToRegExp(entry.branch).test(branch)));
+
+  for (const branch of branches) {
+    const index = deny.findIndex((entry) => matches(entry, [action, baseAction], branch));
+    if (index !== -1) return { allowed: false, entry: describeEntry("deny", index, deny[index]) };
+  }
+
+  // Every target branch must be covered by an allow entry
+  let decidingIndex = -1;
+  for (const branch of branches) {
+    const index = allow.findIndex((entry) => matches(entry, [action], branch));
+    if (index === -1) return { allowed: false, entry: null };
+    if (decidingIndex === -1) decidingIndex = index;
+  }
+
+  return decidingIndex === -1
+    ? { allowed: false, entry: null }
+    : { allowed: true, entry: describeEntry("allow", decidingIndex, allow[decidingIndex]) };
+}
+
+/**
+ * True if the policy has any entries at all.
+ */
+export function hasPolicy(policy: NonInteractivePolicy | undefined): policy is NonInteractivePolicy {
+  return validEntries(policy?.allow).length > 0 || validEntries(policy?.deny).length > 0;
+}
+
+function validEntries(entries: PolicyEntry[] | undefined): PolicyEntry[] {
+  return Array.isArray(entries) ? entries.filter((e) => e && typeof e.action === "string") : [];
+}
+
+function describeEntry(list: "allow" | "deny", index: number, entry: PolicyEntry): string {
+  const branch = entry.branch ? ` on ${entry.branch}` : "";
+  return `nonInteractivePolicy.${list}[${index}] ("${entry.action}"${branch})`;
+}
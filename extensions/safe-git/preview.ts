@@ -0,0 +1,163 @@
+/**
+ * Dry-run previews for destructive git operations
+ *
+ * Before safe-git asks for approval of a destructive command, it gathers
+ * what would be lost using read-only git commands only:
+ *
+ * - reset --hard: uncommitted changes to tracked files, commits leaving the branch
+ * - clean -f:     `git clean -n` with the same flags
+ * - stash drop:   the stash entry's message and diffstat (stash clear: all entries)
+ * - branch -D:    commits reachable only from the deleted branch
+ * - force push:   remote commits that would be overwritten (as of the last fetch)
+ */
+
+import type { GitInvocation } from "./classify";
+import { runGit } from "./git";
+import type { PushTarget } from "./risk";
+
+const MAX_PREVIEW_LINES = 15;
+
+/**
+ * Build preview lines for a destructive invocation, or null if there is
+ * nothing to preview (non-destructive command or nothing would be lost).
+ */
+export async function buildPreview(
+  invocation: GitInvocation,
+  baseAction: string,
+  pushTarget: PushTarget | null
+): Promise<string[] | null> {
+  if (invocation.tool !== "git") return null;
+
+  const [subcommand, ...args] = invocation.args;
+  const cwd = invocation.cwd;
+
+  switch (baseAction) {
+    case "hard reset":
+      return previewHardReset(args, cwd);
+    case "clean (remove untracked files)":
+      return previewClean(args, cwd);
+    case "drop/clear stash":
+      return subcommand === "stash" ? previewStash(args, cwd) : null;
+    case "delete branch":
+      return previewBranchDelete(args, cwd);
+    case "force push":
+      return pushTarget ? previewForcePush(pushTarget, cwd) : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * The commit a `git reset` moves the branch to: its first argument that
+ * isn't an option, before any `--` (paths follow it), or HEAD. `args` come
+ * after "reset".
+ */
+export function resetTarget(args: string[]): string {
+  for (const arg of args) {
+    if (arg === "--") break;
+    if (!arg.startsWith("-")) return arg;
+  }
+  return "HEAD";
+}
+
+async function previewHardReset(args: string[], cwd: string): Promise<string[] | null> {
+  const target = await runGit(["rev-parse", "--verify", "--quiet", `${resetTarget(args)}^{commit}`], cwd);
+  const lines: string[] = [];
+
+  const status = await runGit(["status", "--porcelain", "--untracked-files=no"], cwd);
+  const changed = status ? status.split("\n").filter(Boolean) : [];
+  if (changed.length > 0) {
+    lines.push(`Uncommitted changes that will be discarded (${changed.length}):`);
+    lines.push(...limit(changed.map((l) => `  ${l}`)));
+  }
+
+  // A revision that doesn't resolve makes the reset fail; no commits are lost
+  const lost = target ? await runGit(["log", "--oneline", "--no-decorate", `${target}..HEAD`], cwd) : null;
+  const commits = lost ? lost.split("\n").filter(Boolean) : [];
+  if (commits.length > 0) {
+    lines.push(`Commits that will leave the branch (${commits.length}, still in reflog):`);
+    lines.push(...limit(commits.map((l) => `  ${l}`)));
+  }
+
+  return lines.length > 0 ? lines : null;
+}
+
+async function previewClean(args: string[], cwd: string): Promise<string[] | null> {
+  // Same flags, minus force/interactive, plus dry-run
+  const dryRunArgs = args
+    .filter((a) => a !== "--force" && a !== "-i" && a !== "--interactive")
+    .map((a) => (/^-[a-zA-Z]+$/.test(a) ? a.replace(/[fi]/g, "") : a))
+    .filter((a) => a !== "-");
+
+  const output = await runGit(["clean", "-n", ...dryRunArgs], cwd);
+  const removed = output ? output.split("\n").filter(Boolean) : [];
+  if (removed.length === 0) return null;
+
+  return [`Files that will be deleted (${removed.length}, not recoverable):`, ...limit(removed.map((l) => `  ${l}`))];
+}
+
+async function previewStash(args: string[], cwd: string): Promise<string[] | null> {
+  const [verb, ...rest] = args;
+
+  if (verb === "clear") {
+    const list = await runGit(["stash", "list"], cwd);
+    const entries = list ? list.split("\n").filter(Boolean) : [];
+    if (entries.length === 0) return null;
+    return [`Stash entries that will be removed (${entries.length}):`, ...limit(entries.map((l) => `  ${l}`))];
+  }
+
+  const ref = rest.find((a) => !a.startsWith("-")) ?? "stash@{0}";
+  const subject = await runGit(["log", "-1", "--format=%gd: %s", "-g", ref], cwd);
+  const stat = await runGit(["stash", "show", "--stat", ref], cwd);
+  if (!subject && !stat) return null;
+
+  const lines = [`Stash entry that will be dropped:`, `  ${subject ?? ref}`];
+  if (stat) lines.push(...limit(stat.split("\n").map((l) => `  ${l}`)));
+  return lines;
+}
+
+async function previewBranchDelete(args: string[], cwd: string): Promise<string[] | null> {
+  const branches = args.filter((a) => !a.startsWith("-"));
+  const lines: string[] = [];
+
+  for (const branch of branches) {
+    const unique = await runGit(
+      ["log", "--oneline", "--no-decorate", branch, "--not", `--exclude=${branch}`, "--branches", "--remotes"],
+      cwd
+    );
+    const commits = unique ? unique.split("\n").filter(Boolean) : [];
+    if (commits.length > 0) {
+      lines.push(`Commits only on "${branch}" (${commits.length}, unreachable after delete):`);
+      lines.push(...limit(commits.map((l) => `  ${l}`)));
+    }
+  }
+
+  return lines.length > 0 ? lines : null;
+}
+
+async function previewForcePush(target: PushTarget, cwd: string): Promise<string[] | null> {
+  const lines: string[] = [];
+
+  for (let i = 0; i < target.branches.length; i++) {
+    const remoteRef = `refs/remotes/${target.remote}/${target.branches[i]}`;
+    const source = target.sources[i] || "HEAD";
+
+    if ((await runGit(["rev-parse", "--verify", "--quiet", remoteRef], cwd)) === null) continue;
+
+    const overwritten = await runGit(["log", "--oneline", "--no-decorate", `${source}..${remoteRef}`], cwd);
+    const commits = overwritten ? overwritten.split("\n").filter(Boolean) : [];
+    if (commits.length > 0) {
+      lines.push(
+        `Commits on ${target.remote}/${target.branches[i]} that will be overwritten (${commits.length}, as of last fetch):`
+      );
+      lines.push(...limit(commits.map((l) => `  ${l}`)));
+    }
+  }
+
+  return lines.length > 0 ? lines : null;
+}
+
+function limit(lines: string[]): string[] {
+  if (lines.length <= MAX_PREVIEW_LINES) return lines;
+  return [...lines.slice(0, MAX_PREVIEW_LINES), `  … and ${lines.length - MAX_PREVIEW_LINES} more`];
+}
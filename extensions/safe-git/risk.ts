@@ -0,0 +1,180 @@
+/**
+ * Branch- and remote-aware risk scoring for safe-git
+ *
+ * Resolves where a `git push` actually goes (remote and destination
+ * branches, using the same config git consults: pushRemote, pushDefault,
+ * upstream) and adjusts the severity of the match:
+ *
+ * - Escalate to high when a protected branch or an untrusted remote is targeted
+ * - Downgrade one level when every target is a personal branch
+ */
+
+import * as os from "node:os";
+import type { GitInvocation, GitMatch, Severity } from "./classify";
+import { runGit } from "./git";
+import { globToRegExp } from "./rules";
+
+export interface BranchPolicy {
+  protectedBranches: string[];
+  personalBranches: string[];
+  trustedRemotes: string[];
+}
+
+export interface PushTarget {
+  remote: string;
+  /** Destination branch names (without refs/heads/) */
+  branches: string[];
+  /** Local source ref for each destination branch (parallel to `branches`) */
+  sources: string[];
+  /** True for --all / --mirror, which update every branch */
+  allBranches: boolean;
+  /** Refspecs or flags that delete remote branches */
+  deletes: boolean;
+}
+
+export interface RiskAssessment {
+  action: string;
+  severity: Severity;
+  /** Human-readable explanations for any escalation or downgrade */
+  notes: string[];
+  target: PushTarget | null;
+}
+
+// Suffixes appended to an action when it is escalated, so session approvals
+// and rules for plain "push" don't silently cover protected targets
+export const PROTECTED_SUFFIX = " to protected branch";
+export const UNTRUSTED_SUFFIX = " to untrusted remote";
+
+const PUSH_OPTIONS_WITH_VALUE = new Set(["-o", "--push-option", "--repo", "--receive-pack", "--exec"]);
+
+const lowerSeverity: Record<Severity, Severity> = {
+  high: "medium",
+  medium: "low",
+  low: "low",
+};
+
+/**
+ * Resolve the remote and destination branches of a `git push` invocation.
+ */
+export async function resolvePushTarget(
+  invocation: GitInvocation,
+  currentBranch: string | null
+): Promise<PushTarget> {
+  const positional: string[] = [];
+  let remote: string | null = null;
+  let allBranches = false;
+  let deletes = false;
+
+  const args = invocation.args.slice(1);
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--") {
+      positional.push(...args.slice(i + 1));
+      break;
+    }
+    if (arg === "--all" || arg === "--mirror" || arg === "--branches") {
+      allBranches = true;
+    } else if (arg === "-d" || arg === "--delete") {
+      deletes = true;
+    } else if (arg.startsWith("--repo=")) {
+      remote = arg.slice("--repo=".length);
+    } else if (PUSH_OPTIONS_WITH_VALUE.has(arg)) {
+      if (arg === "--repo") remote = args[i + 1] ?? null;
+      i++;
+    } else if (!arg.startsWith("-")) {
+      positional.push(arg);
+    }
+  }
+
+  if (positional.length > 0 && !remote) {
+    remote = positional.shift()!;
+  }
+
+  const cwd = invocation.cwd;
+  if (!remote) {
+    remote =
+      (currentBranch && (await runGit(["config", "--get", `branch.${currentBranch}.pushRemote`], cwd))) ||
+      (await runGit(["config", "--get", "remote.pushDefault"], cwd)) ||
+      (currentBranch && (await runGit(["config", "--get", `branch.${currentBranch}.remote`], cwd))) ||
+      "origin";
+  }
+
+  const branches: string[] = [];
+  const sources: string[] = [];
+  for (const refspec of positional) {
+    const spec = refspec.replace(/^\+/, "");
+    const [src, dst] = spec.includes(":") ? spec.split(":", 2) : [spec, null];
+    if (dst !== null && src === "") deletes = true;
+    const destination = dst || (src === "HEAD" || src === "@" ? currentBranch : src);
+    if (destination) {
+      branches.push(destination.replace(/^refs\/heads\//, ""));
+      sources.push(src || "");
+    }
+  }
+
+  if (positional.length === 0 && !allBranches && currentBranch) {
+    // No refspec: push.default=simple/upstream sends the current branch to its upstream
+    const upstreamRemote = await runGit(["config", "--get", `branch.${currentBranch}.remote`], cwd);
+    const upstreamMerge = await runGit(["config", "--get", `branch.${currentBranch}.merge`], cwd);
+    branches.push(
+      upstreamRemote === remote && upstreamMerge ? upstreamMerge.replace(/^refs\/heads\//, "") : currentBranch
+    );
+    sources.push(currentBranch);
+  }
+
+  return { remote, branches, sources, allBranches, deletes };
+}
+
+/**
+ * Adjust a push match's action and severity for its resolved target.
+ */
+export function scorePush(match: GitMatch, target: PushTarget, policy: BranchPolicy): RiskAssessment {
+  const notes: string[] = [];
+  const isProtected = (branch: string) => matchesAny(branch, policy.protectedBranches);
+  const isPersonal = (branch: string) => matchesAny(branch, policy.personalBranches);
+
+  const protectedTargets = target.allBranches
+    ? ["(all branches)"]
+    : target.branches.filter(isProtected);
+  const trustedRemote = policy.trustedRemotes.includes(target.remote);
+
+  if (protectedTargets.length > 0) {
+    notes.push(`targets protected branch ${protectedTargets.join(", ")}`);
+    return { action: match.action + PROTECTED_SUFFIX, severity: "high", notes, target };
+  }
+
+  if (!trustedRemote) {
+    notes.push(`remote "${target.remote}" is not a trusted remote`);
+    return { action: match.action + UNTRUSTED_SUFFIX, severity: "high", notes, target };
+  }
+
+  if (target.branches.length > 0 && target.branches.every(isPersonal) && !target.deletes) {
+    notes.push(`personal branch ${target.branches.join(", ")}`);
+    return { action: match.action, severity: lowerSeverity[match.severity], notes, target };
+  }
+
+  return { action: match.action, severity: match.severity, notes, target };
+}
+
+/**
+ * Expand `{user}` in branch patterns to the local username.
+ */
+export function expandBranchPatterns(patterns: string[]): string[] {
+  let user = "";
+  try {
+    user = os.userInfo().username;
+  } catch {
+    // No username available; patterns with {user} simply won't match
+  }
+  return patterns.map((p) => p.replace(/\{user\}/g, user || "\0"));
+}
+
+function matchesAny(branch: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => globToRegExp(pattern).test(branch));
+}
+
+export function describePushTarget(target: PushTarget, currentBranch: string | null): string {
+  const from = currentBranch ?? "detached HEAD";
+  const to = target.allBranches ? "all branches" : target.branches.join(", ") || "?";
+  return `${from} → ${target.remote}/${to}`;
+}
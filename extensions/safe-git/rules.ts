@@ -0,0 +1,223 @@
+/**
+ * Persistent approval/deny rules for safe-git
+ *
+ * Rules survive across sessions, unlike session approvals. The user's rules
+ * live in `~/.pi/agent/safe-git.json`, global ones under "rules" and those
+ * for one repository under "repos", keyed by the repository root:
+ *
+ * {
+ *   "rules": [
+ *     { "action": "force push", "decision": "block", "branch": "main" }
+ *   ],
+ *   "repos": {
+ *     "/work/app": [{ "action": "commit", "decision": "allow" }]
+ *   }
+ * }
+ *
+ * A repository can ship its own `<repo root>/.pi/safe-git.json` ("rules"
+ * only), but only its block rules count: anything that can write to the
+ * working tree, the agent included, could otherwise allow itself anything.
+ *
+ * Block rules win over allow rules. `action` is a safe-git action name
+ * (e.g. "push", "force push") or "*" for any action; `branch` is an optional
+ * glob (`main`, `release/*`) matched against the current branch.
+ */
+
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+
+export type RuleDecision = "allow" | "block";
+/**
+ * - "repo": the user's rules for one repository (global file, by root)
+ * - "global": the user's rules for every repository
+ * - "project": block rules from the repository's own .pi/safe-git.json
+ */
+export type RuleScope = "repo" | "global" | "project";
+
+export interface SafeGitRule {
+  action: string;
+  decision: RuleDecision;
+  branch?: string;
+  createdAt?: string;
+}
+
+export interface ScopedRule extends SafeGitRule {
+  scope: RuleScope;
+  /** Index within its scope's file (used by remove) */
+  index: number;
+}
+
+export const GLOBAL_RULES_PATH = path.join(os.homedir(), ".pi", "agent", "safe-git.json");
+
+/**
+ * Path of the rules file for a scope. Repo and project scopes require a
+ * repo root.
+ */
+export function rulesPath(scope: RuleScope, repoRoot: string | null): string | null {
+  if (scope === "global") return GLOBAL_RULES_PATH;
+  if (!repoRoot) return null;
+  return scope === "repo" ? GLOBAL_RULES_PATH : projectRulesPath(repoRoot);
+}
+
+/**
+ * The repository's own rules file, of which only block rules count.
+ */
+export function projectRulesPath(repoRoot: string): string {
+  return path.join(repoRoot, ".pi", "safe-git.json");
+}
+
+// Where a scope's rules sit in its file: the "rules" list, or the
+// repository's list under "repos"
+function ruleListKey(scope: RuleScope, repoRoot: string | null): string | null {
+  return scope === "repo" ? repoRoot : null;
+}
+
+async function readRulesFile(filePath: string, repoKey: string | null): Promise<SafeGitRule[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, "utf8");
+  } catch {
+    return [];
+  }
+
+  const parsed = JSON.parse(content);
+  const list = repoKey === null ? parsed?.rules : parsed?.repos?.[repoKey];
+  const rules = Array.isArray(list) ? list : [];
+  return rules.filter(
+    (r: any) =>
+      r && typeof r.action === "string" && (r.decision === "allow" || r.decision === "block")
+  );
+}
+
+async function writeRulesFile(filePath: string, repoKey: string | null, rules: SafeGitRule[]): Promise<void> {
+  let existing: any = {};
+  try {
+    existing = JSON.parse(await fs.readFile(filePath, "utf8"));
+  } catch {
+    // Missing or unreadable file: start fresh
+  }
+
+  const updated = repoKey === null ? { ...existing, rules } : { ...existing, repos: { ...existing.repos, [repoKey]: rules } };
+  if (repoKey !== null && rules.length === 0) {
+    delete updated.repos[repoKey];
+    if (Object.keys(updated.repos).length === 0) delete updated.repos;
+  }
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(updated, null, 2) + "\n", "utf8");
+}
+
+/**
+ * Load the rules that apply in a repository: its own block rules, the
+ * user's rules for it, then global rules.
+ *
+ * Throws if a rules file exists but is not valid JSON, so callers can
+ * surface the problem instead of silently ignoring the user's rules.
+ */
+export async function loadRules(repoRoot: string | null): Promise<ScopedRule[]> {
+  const result: ScopedRule[] = [];
+
+  for (const scope of ["project", "repo", "global"] as RuleScope[]) {
+    const filePath = rulesPath(scope, repoRoot);
+    if (!filePath) continue;
+
+    let rules: SafeGitRule[];
+    try {
+      rules = await readRulesFile(filePath, ruleListKey(scope, repoRoot));
+    } catch (e) {
+      throw new Error(`Invalid safe-git rules file ${filePath}: ${e instanceof Error ? e.message : e}`);
+    }
+
+    rules.forEach((rule, index) => {
+      if (scope !== "project" || rule.decision === "block") result.push({ ...rule, scope, index });
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Allow rules in the repository's own rules file, which are ignored.
+ */
+export async function ignoredProjectRules(repoRoot: string | null): Promise<SafeGitRule[]> {
+  if (!repoRoot) return [];
+  try {
+    const rules = await readRulesFile(projectRulesPath(repoRoot), null);
+    return rules.filter((rule) => rule.decision === "allow");
+  } catch {
+    // An invalid file is reported by loadRules
+    return [];
+  }
+}
+
+export async function addRule(scope: RuleScope, repoRoot: string | null, rule: SafeGitRule): Promise<string> {
+  const filePath = rulesPath(scope, repoRoot);
+  if (!filePath) throw new Error("Not inside a git repository");
+  if (scope === "project" && rule.decision === "allow") {
+    throw new Error("Allow rules in the repository's .pi/safe-git.json are ignored; save it as a repo rule instead");
+  }
+
+  const key = ruleListKey(scope, repoRoot);
+  const rules = await readRulesFile(filePath, key);
+  rules.push({ ...rule, createdAt: rule.createdAt ?? new Date().toISOString() });
+  await writeRulesFile(filePath, key, rules);
+  return filePath;
+}
+
+export async function removeRule(scope: RuleScope, repoRoot: string | null, index: number): Promise<SafeGitRule | null> {
+  const filePath = rulesPath(scope, repoRoot);
+  if (!filePath) return null;
+
+  const key = ruleListKey(scope, repoRoot);
+  const rules = await readRulesFile(filePath, key);
+  if (index < 0 || index >= rules.length) return null;
+
+  const [removed] = rules.splice(index, 1);
+  await writeRulesFile(filePath, key, rules);
+  return removed;
+}
+
+/**
+ * Find the rule that decides an action on a branch. Block rules take
+ * precedence over allow rules; returns null when no rule applies.
+ */
+export function findRule(rules: ScopedRule[], action: string, branch: string | null): ScopedRule | null {
+  const applicable = rules.filter(
+    (rule) =>
+      (rule.action === "*" || rule.action === action) &&
+      (!rule.branch || (branch !== null && globToRegExp(rule.branch).test(branch)))
+  );
+
+  return applicable.find((r) => r.decision === "block") ?? applicable.find((r) => r.decision === "allow") ?? null;
+}
+
+/**
+ * Convert a branch glob (`*` within a path segment, `**` across segments)
+ * to an anchored regular expression.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === "*") {
+      if (glob[i + 1] === "*") {
+        source += ".*";
+        i++;
+      } else {
+        source += "[^/]*";
+      }
+    } else if (ch === "?") {
+      source += "[^/]";
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+export function describeRule(rule: SafeGitRule): string {
+  const verb = rule.decision === "allow" ? "✅ allow" : "🚫 block";
+  const action = rule.action === "*" ? "all git operations" : `"git ${rule.action}"`;
+  return `${verb} ${action}${rule.branch ? ` on ${rule.branch}` : ""}`;
+}
@@ -0,0 +1,260 @@
+/**
+ * Safety snapshots for safe-git
+ *
+ * Before an approved high-risk git operation runs, safe-git records a
+ * recovery point: a commit of the working tree (tracked changes plus
+ * untracked files), built with a temporary index so the real
+ * index and working tree are untouched. It is stored under
+ * `refs/safe-git/<timestamp>`.
+ *
+ * The snapshot commit's parents are HEAD plus any commits the operation
+ * would make unreachable (deleted branch tips, dropped stash entries,
+ * remote-tracking tips overwritten by a force push or deleted by push --delete),
+ * so those survive too.
+ * The commit message records what each extra parent was.
+ *
+ * Ignored files are normally left out (they are mostly build output), but a
+ * `git clean -x`/`-X` removes them: for it, the files a dry run of the same
+ * clean lists are added too.
+ */
+
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { GitInvocation } from "./classify";
+import { execGit, runGit } from "./git";
+import type { PushTarget } from "./risk";
+
+export const SNAPSHOT_REF_PREFIX = "refs/safe-git/";
+
+const SNAPSHOT_TIMEOUT_MS = 30_000;
+
+export interface SnapshotKeep {
+  sha: string;
+  kind: "branch" | "stash" | "remote";
+  name: string;
+}
+
+export interface Snapshot {
+  ref: string;
+  sha: string;
+  date: string;
+  action: string;
+  command: string;
+  branch: string | null;
+  head: string | null;
+  keeps: SnapshotKeep[];
+}
+
+/**
+ * Commits an operation would make unreachable, to be kept alive by the snapshot.
+ */
+export async function collectKeeps(
+  invocation: GitInvocation,
+  baseAction: string,
+  pushTarget: PushTarget | null
+): Promise<SnapshotKeep[]> {
+  const keeps: SnapshotKeep[] = [];
+  const cwd = invocation.cwd;
+  const [, ...args] = invocation.args;
+
+  const add = async (rev: string, kind: SnapshotKeep["kind"], name: string) => {
+    const sha = await runGit(["rev-parse", "--verify", "--quiet", `${rev}^{commit}`], cwd);
+    if (sha) keeps.push({ sha, kind, name });
+  };
+
+  if (baseAction === "delete branch") {
+    for (const branch of args.filter((a) => !a.startsWith("-"))) {
+      await add(`refs/heads/${branch}`, "branch", branch);
+    }
+  } else if (baseAction === "drop/clear stash") {
+    const [verb, ...rest] = args;
+    if (verb === "clear") {
+      const list = await runGit(["stash", "list", "--format=%gd"], cwd);
+      for (const ref of list ? list.split("\n").filter(Boolean) : []) {
+        await add(ref, "stash", ref);
+      }
+    } else {
+      const ref = rest.find((a) => !a.startsWith("-")) ?? "stash@{0}";
+      await add(ref, "stash", ref);
+    }
+  } else if ((baseAction === "force push" || baseAction === "push --delete") && pushTarget) {
+    for (const branch of pushTarget.branches) {
+      await add(`refs/remotes/${pushTarget.remote}/${branch}`, "remote", `${pushTarget.remote}/${branch}`);
+    }
+  }
+
+  return keeps;
+}
+
+/**
+ * Files (relative to `repoRoot`) a `git clean -x`/`-X` would remove, for the
+ * snapshot to include although they are ignored; empty for other operations.
+ */
+export async function collectCleaned(invocation: GitInvocation, repoRoot: string): Promise<string[]> {
+  const args = invocation.args[0] === "clean" ? cleanDryRunArgs(invocation.args) : null;
+  if (!args) return [];
+
+  const output = await runGit(["-c", "core.quotePath=false", ...args], invocation.cwd);
+  const files: string[] = [];
+  for (const line of (output ?? "").split("\n")) {
+    if (!line.startsWith("Would remove ")) continue;
+    let file = line.slice("Would remove ".length);
+    if (file.startsWith('"')) {
+      // git quotes names with quotes, backslashes or control characters
+      try {
+        file = JSON.parse(file);
+      } catch {
+        continue;
+      }
+    }
+    files.push(path.relative(repoRoot, path.resolve(invocation.cwd, file)));
+  }
+  return files;
+}
+
+/**
+ * Arguments of a dry run (`-n`) listing what a `git clean` would remove, when
+ * it removes ignored files (-x or -X); null otherwise. `args` start with
+ * "clean". Interactive and quiet flags are dropped so the list is printed.
+ */
+export function cleanDryRunArgs(args: string[]): string[] | null {
+  const dryRun = ["clean", "-n"];
+  let ignored = false;
+
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--") {
+      dryRun.push(...args.slice(i));
+      break;
+    }
+    if (arg === "-e" || arg === "--exclude") {
+      dryRun.push(...args.slice(i, i + 2));
+      i++;
+    } else if (/^-[^-]/.test(arg)) {
+      // Combined short flags; anything after "e" is an exclude pattern
+      const e = arg.indexOf("e");
+      const flags = (e === -1 ? arg.slice(1) : arg.slice(1, e)).replace(/[iq]/g, "");
+      if (/[xX]/.test(flags)) ignored = true;
+      const kept = `-${flags}${e === -1 ? "" : arg.slice(e)}`;
+      if (kept !== "-") dryRun.push(kept);
+    } else if (arg !== "--interactive" && arg !== "--quiet") {
+      dryRun.push(arg);
+    }
+  }
+
+  return ignored ? dryRun : null;
+}
+
+/**
+ * Record a snapshot for the repository at `repoRoot`. Returns the ref name.
+ * `cleaned` are files to include even when ignored (see collectCleaned).
+ */
+export async function createSnapshot(
+  repoRoot: string,
+  details: { action: string; command: string; branch: string | null; keeps: SnapshotKeep[]; cleaned?: string[] }
+): Promise<string> {
+  const head = await runGit(["rev-parse", "--verify", "--quiet", "HEAD"], repoRoot);
+
+  // Stage the full working tree into a throwaway copy of the index
+  const indexPath = await execGit(["rev-parse", "--path-format=absolute", "--git-path", "index"], repoRoot);
+  const tmpIndex = path.join(os.tmpdir(), `safe-git-index-${process.pid}-${Date.now()}`);
+  let tree: string;
+  try {
+    try {
+      await fs.copyFile(indexPath, tmpIndex);
+    } catch {
+      // No index yet (fresh repository); git add starts from empty
+    }
+    const env = { GIT_INDEX_FILE: tmpIndex };
+    await execGit(["add", "-A", "--", "."], repoRoot, { env, timeout: SNAPSHOT_TIMEOUT_MS });
+    if (details.cleaned?.length) {
+      const pathspecs = details.cleaned.map((file) => `:(literal)${file}`);
+      await execGit(["add", "-A", "-f", "--", ...pathspecs], repoRoot, { env, timeout: SNAPSHOT_TIMEOUT_MS });
+    }
+    tree = await execGit(["write-tree"], repoRoot, { env });
+  } finally {
+    await fs.rm(tmpIndex, { force: true });
+  }
+
+  const message = [
+    `safe-git snapshot: ${details.action}`,
+    "",
+    `Command: ${details.command.replace(/\n/g, " ")}`,
+    `Branch: ${details.branch ?? "(detached)"}`,
+    `HEAD: ${head ?? "(none)"}`,
+    ...details.keeps.map((k) => `Keep: ${k.sha} ${k.kind} ${k.name}`),
+  ].join("\n");
+
+  const parents = [head, ...details.keeps.map((k) => k.sha)]
+    .filter((sha): sha is string => !!sha)
+    .filter((sha, i, all) => all.indexOf(sha) === i);
+  const commit = await execGit(
+    ["commit-tree", tree, ...parents.flatMap((p) => ["-p", p]), "-m", message],
+    repoRoot,
+    { env: { GIT_AUTHOR_NAME: "safe-git", GIT_AUTHOR_EMAIL: "safe-git@localhost", GIT_COMMITTER_NAME: "safe-git", GIT_COMMITTER_EMAIL: "safe-git@localhost" } }
+  );
+
+  const ref = `${SNAPSHOT_REF_PREFIX}${Date.now()}`;
+  await execGit(["update-ref", "-m", "safe-git snapshot", ref, commit], repoRoot);
+  return ref;
+}
+
+/**
+ * List snapshots, newest first.
+ */
+export async function listSnapshots(repoRoot: string): Promise<Snapshot[]> {
+  const output = await runGit(
+    ["for-each-ref", "--sort=-refname", "--format=%(refname)%00%(objectname)%00%(committerdate:iso-strict)%00%(contents)%01", SNAPSHOT_REF_PREFIX],
+    repoRoot
+  );
+  if (!output) return [];
+
+  return output
+    .split("\x01")
+    .map((record) => record.replace(/^\n/, ""))
+    .filter(Boolean)
+    .map((record) => {
+      const [ref, sha, date, contents] = record.split("\0");
+      const field = (name: string) => contents.match(new RegExp(`^${name}: (.*)$`, "m"))?.[1] ?? null;
+      const head = field("HEAD");
+      const branch = field("Branch");
+      const keeps = [...contents.matchAll(/^Keep: (\S+) (branch|stash|remote) (.*)$/gm)].map(
+        ([, keepSha, kind, name]) => ({ sha: keepSha, kind: kind as SnapshotKeep["kind"], name })
+      );
+      return {
+        ref,
+        sha,
+        date,
+        action: contents.split("\n")[0].replace(/^safe-git snapshot: /, ""),
+        command: field("Command") ?? "",
+        branch: branch === "(detached)" ? null : branch,
+        head: head === "(none)" ? null : head,
+        keeps,
+      };
+    });
+}
+
+/**
+ * Delete the oldest snapshots beyond `max`.
+ */
+export async function pruneSnapshots(repoRoot: string, max: number): Promise<void> {
+  const snapshots = await listSnapshots(repoRoot);
+  for (const snapshot of snapshots.slice(Math.max(max, 0))) {
+    await deleteSnapshot(repoRoot, snapshot.ref);
+  }
+}
+
+export async function deleteSnapshot(repoRoot: string, ref: string): Promise<void> {
+  await execGit(["update-ref", "-d", ref], repoRoot);
+}
+
+/**
+ * Restore working tree files from a snapshot. Files created since the
+ * snapshot are left alone; files in the snapshot are overwritten.
+ */
+export async function restoreSnapshotFiles(repoRoot: string, snapshot: Snapshot): Promise<void> {
+  await execGit(["restore", `--source=${snapshot.sha}`, "--worktree", "--", ":/"], repoRoot, {
+    timeout: SNAPSHOT_TIMEOUT_MS,
+  });
+}
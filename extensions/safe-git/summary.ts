@@ -0,0 +1,128 @@
+/**
+ * End-of-run summary for safe-git
+ *
+ * After a long agent run it is hard to tell which git operations happened.
+ * safe-git records every git/gh command the agent ran, read-only ones like
+ * `git status` included, and the HEAD/branch of each repository before the
+ * first of them ran. When the
+ * agent finishes, the summary lists the commands with their decisions, and
+ * for each repository how the branch and HEAD moved and which commits were
+ * created.
+ */
+
+import type { GitInvocation } from "./classify";
+import type { RuleDecision } from "./rules";
+import { runGit } from "./git";
+
+// Session entry type used when the summary is saved to the session
+export const SUMMARY_ENTRY_TYPE = "safe-git-summary";
+
+const MAX_LISTED_COMMANDS = 20;
+const MAX_LISTED_COMMITS = 10;
+
+export interface RunCommand {
+  command: string;
+  /** Command that ran instead, if the user edited it */
+  editedCommand?: string;
+  decision: RuleDecision;
+  /** Actions of the operations safe-git checked, else the subcommands run (`status`, `checkout`, ...) */
+  actions: string[];
+}
+
+export interface RepoState {
+  root: string;
+  branch: string | null;
+  /** HEAD commit, or null in a repository without commits */
+  head: string | null;
+}
+
+export interface RepoChange {
+  root: string;
+  before: RepoState;
+  after: RepoState;
+  /** Commits reachable from the new HEAD but not the old one, newest first ("sha subject") */
+  commits: string[];
+}
+
+/**
+ * Name of an invocation for the summary: the git subcommand, or `gh` with
+ * its command.
+ */
+export function invocationLabel(invocation: GitInvocation): string {
+  if (invocation.tool === "gh") return ["gh", ...invocation.args.slice(0, 2)].join(" ");
+  return invocation.args[0] ?? "git";
+}
+
+/**
+ * Record the branch and HEAD of a repository.
+ */
+export async function captureRepoState(root: string): Promise<RepoState> {
+  const branch = await runGit(["symbolic-ref", "--quiet", "--short", "HEAD"], root);
+  const head = await runGit(["rev-parse", "--verify", "--quiet", "HEAD"], root);
+  return { root, branch, head };
+}
+
+/**
+ * Compare a repository with its recorded state. Returns null when neither
+ * branch nor HEAD changed.
+ */
+export async function diffRepoState(before: RepoState): Promise<RepoChange | null> {
+  const after = await captureRepoState(before.root);
+  if (after.branch === before.branch && after.head === before.head) return null;
+
+  let commits: string[] = [];
+  if (after.head) {
+    const range = before.head ? [`${before.head}..${after.head}`] : [after.head];
+    const log = await runGit(["log", "--format=%h %s", ...range], before.root);
+    commits = (log ?? "").split("\n").filter(Boolean);
+  }
+
+  return { root: before.root, before, after, commits };
+}
+
+/**
+ * Format the summary: commands with their decisions, then repository changes.
+ */
+export function formatRunSummary(commands: RunCommand[], changes: RepoChange[]): string[] {
+  const allowed = commands.filter((c) => c.decision === "allow").length;
+  const blocked = commands.length - allowed;
+  const lines = [
+    `─── safe-git: ${commands.length} git/gh command${commands.length === 1 ? "" : "s"} this run (${allowed} allowed, ${blocked} blocked) ───`,
+  ];
+
+  const shown = commands.slice(-MAX_LISTED_COMMANDS);
+  if (shown.length < commands.length) {
+    lines.push(`  … ${commands.length - shown.length} earlier command(s) not shown`);
+  }
+  for (const c of shown) {
+    const icon = c.decision === "allow" ? "✅" : "🚫";
+    lines.push(`  ${icon} ${c.editedCommand ?? c.command}  (${c.actions.join(", ")})`);
+    if (c.editedCommand !== undefined) lines.push(`     ✏️  edited from: ${c.command}`);
+  }
+
+  for (const change of changes) {
+    lines.push("", `  📁 ${change.root}`);
+    if (change.before.branch !== change.after.branch) {
+      lines.push(`     Branch: ${change.before.branch ?? "(detached)"} → ${change.after.branch ?? "(detached)"}`);
+    }
+    if (change.before.head !== change.after.head) {
+      lines.push(`     HEAD: ${shortSha(change.before.head)} → ${shortSha(change.after.head)}`);
+    }
+    if (change.commits.length > 0) {
+      const count = change.commits.length === 1 ? "1 new commit" : `${change.commits.length} new commits`;
+      lines.push(`     ${count}:`);
+      for (const commit of change.commits.slice(0, MAX_LISTED_COMMITS)) {
+        lines.push(`       ${commit}`);
+      }
+      if (change.commits.length > MAX_LISTED_COMMITS) {
+        lines.push(`       … and ${change.commits.length - MAX_LISTED_COMMITS} more`);
+      }
+    }
+  }
+
+  return lines;
+}
+
+function shortSha(sha: string | null): string {
+  return sha ? sha.slice(0, 7) : "(none)";
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { findBypassFlags } from "../../bypass";
+import { findGitInvocations } from "../../classify";
+
+function bypasses(command: string): string[] {
+  return findGitInvocations(command, "/work").flatMap(findBypassFlags);
+}
+
+describe("findBypassFlags", () => {
+  it.each([
+    ["git commit --no-verify -m x", ["--no-verify (skips hooks)"]],
+    ["git push --no-verify", ["--no-verify (skips hooks)"]],
+    ["git merge --no-verify feature", ["--no-verify (skips hooks)"]],
+    ["git commit -n -m x", ["-n (-n skips hooks)"]],
+    ["git commit -an -m x", ["-an (-n skips hooks)"]],
+    ["git commit -nam x", ["-nam (-n skips hooks)"]],
+    ["git commit --no-gpg-sign -m x", ["--no-gpg-sign (disables signing)"]],
+    ["git rebase --no-gpg-sign main", ["--no-gpg-sign (disables signing)"]],
+    ["git -c core.hooksPath=/dev/null commit -m x", ["-c core.hooksPath=/dev/null (redirects hooks)"]],
+    ["git -c commit.gpgsign=false commit -m x", ["-c commit.gpgsign=false (disables signing)"]],
+    ["git -c push.gpgSign=off push", ["-c push.gpgSign=off (disables signing)"]],
+    ["HUSKY=0 git commit -m x", ["HUSKY=0 (disables husky hooks)"]],
+    ["env HUSKY_SKIP_HOOKS=1 git push", ["HUSKY_SKIP_HOOKS=1 (disables husky hooks)"]],
+    ["SKIP=eslint git commit -m x", ["SKIP=eslint (skips pre-commit hooks)"]],
+  ])("%s", (command, expected) => {
+    expect(bypasses(command)).toEqual(expected);
+  });
+
+  it("reports every bypass in a command", () => {
+    expect(bypasses("HUSKY=0 git -c commit.gpgsign=false commit --no-verify -m x")).toEqual([
+      "--no-verify (skips hooks)",
+      "-c commit.gpgsign=false (disables signing)",
+      "HUSKY=0 (disables husky hooks)",
+    ]);
+  });
+
+  it.each([
+    "git commit -m x",
+    "git commit -am x",
+    // -n as the value of an option, or after --
+    "git commit -m -n",
+    "git commit -am -n",
+    "git commit --message -n",
+    "git commit -m x -- -n",
+    // -n is a dry run everywhere but commit
+    "git push -n",
+    "git merge -n feature",
+    // -S and -u only take attached values
+    "git commit -Sn -m x",
+    // Not a bypass, or not on a subcommand that runs hooks
+    "git -c commit.gpgsign=true commit -m x",
+    "git -c user.name=x commit -m x",
+    "git fetch --no-verify",
+    "git checkout -n",
+    "HUSKY=1 git commit -m x",
+    "SKIP= git commit -m x",
+    "gh pr create --no-verify",
+  ])("%s has no bypass", (command) => {
+    expect(bypasses(command)).toEqual([]);
+  });
+});
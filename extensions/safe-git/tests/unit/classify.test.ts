@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { buildPatternTable, classifyCommand, findGitInvocations } from "../../classify";
+
+// Action and severity of each match, most severe first
+function classify(command: string): [string, string][] {
+  return classifyCommand(command, "/work").map((m) => [m.action, m.severity]);
+}
+
+describe("classifyCommand", () => {
+  describe("git", () => {
+    it.each([
+      ["git push --mirror origin", "push --mirror"],
+      ["git push origin --delete feature", "push --delete"],
+      ["git push origin :feature", "push --delete"],
+      ["git push -f", "force push"],
+      ["git push --force-with-lease", "force push"],
+      ["git push origin +main", "force push"],
+      ["git reset --hard HEAD~1", "hard reset"],
+      ["git clean -fd", "clean (remove untracked files)"],
+      ["git stash drop", "drop/clear stash"],
+      ["git stash clear", "drop/clear stash"],
+      ["git branch -D feature", "delete branch"],
+      ["git reflog expire --all", "expire reflog"],
+      ["git filter-branch --tree-filter x", "filter-branch"],
+    ])("%s is high risk (%s)", (command, action) => {
+      expect(classify(command)).toEqual([[action, "high"]]);
+    });
+
+    it.each([
+      ["git push origin main", "push"],
+      ["git commit -m x", "commit"],
+      ["git rebase main", "rebase"],
+      ["git merge feature", "merge"],
+      ["git tag v1", "create/modify tag"],
+      ["git cherry-pick abc", "cherry-pick"],
+      ["git revert abc", "revert"],
+      ["git am fix.patch", "apply patches"],
+      ["git replace abc def", "replace objects"],
+    ])("%s is medium risk (%s)", (command, action) => {
+      expect(classify(command)).toEqual([[action, "medium"]]);
+    });
+
+    it.each(["git status", "git log", "git reset --soft HEAD~1", "git clean -n", "git stash", "git branch feature", "git replace -l"])(
+      "%s is not protected",
+      (command) => {
+        expect(classify(command)).toEqual([]);
+      }
+    );
+  });
+
+  describe("gh", () => {
+    it.each(["gh repo delete x", "gh repo archive", "gh secret set TOKEN", "gh api -X DELETE /x", "gh api --method=PATCH /x"])(
+      "%s is destructive",
+      (command) => {
+        expect(classify(command)).toEqual([["GitHub CLI (destructive)", "high"]]);
+      }
+    );
+
+    it.each(["gh pr view 1", "gh pr list", "gh status", "gh api /repos/x", "gh api -X GET /x"])("%s is read-only", (command) => {
+      expect(classify(command)).toEqual([["GitHub CLI (read-only)", "low"]]);
+    });
+
+    it.each(["gh pr create", "gh pr merge 1", "gh api /x -f a=b"])("%s is mutating", (command) => {
+      expect(classify(command)).toEqual([["GitHub CLI (mutating)", "medium"]]);
+    });
+  });
+
+  describe("shell structure", () => {
+    it("sees through wrappers, assignments and git global options", () => {
+      expect(classify("sudo git push -f")).toEqual([["force push", "high"]]);
+      expect(classify("env GIT_DIR=x git commit")).toEqual([["commit", "medium"]]);
+      expect(classify("git -c user.name=x -C sub commit")).toEqual([["commit", "medium"]]);
+    });
+
+    it("finds invocations in nested shells and eval", () => {
+      expect(classify("bash -c 'git push -f'")).toEqual([["force push", "high"]]);
+      expect(classify("eval git commit")).toEqual([["commit", "medium"]]);
+    });
+
+    it("ignores git inside arguments", () => {
+      expect(classify("echo git push")).toEqual([]);
+      expect(classify("git commit -m 'x && git push -f'")).toEqual([["commit", "medium"]]);
+    });
+
+    it("returns every invocation, most severe first", () => {
+      expect(classify("git commit -m x && git push -f; git status")).toEqual([
+        ["force push", "high"],
+        ["commit", "medium"],
+      ]);
+    });
+  });
+});
+
+describe("findGitInvocations", () => {
+  it("applies cd and -C, scoping cd to its subshell", () => {
+    const invocations = findGitInvocations("(cd a && git push) && git -C sub commit && cd b && gh pr list", "/work");
+    expect(invocations.map((i) => [i.normalized, i.cwd])).toEqual([
+      ["git push", "/work/a"],
+      ["git commit", "/work/sub"],
+      ["gh pr list", "/work/b"],
+    ]);
+  });
+
+  it("records global options and assignments", () => {
+    const [invocation] = findGitInvocations("A=1 git -C sub --no-pager push origin", "/work");
+    expect(invocation).toMatchObject({
+      tool: "git",
+      args: ["push", "origin"],
+      globalOptions: ["-C", "sub", "--no-pager"],
+      assignments: ["A=1"],
+    });
+  });
+});
+
+describe("buildPatternTable", () => {
+  it("puts custom patterns first and applies severity overrides", () => {
+    const { patterns, errors } = buildPatternTable([
+      { pattern: "^git\\s+push\\b.*\\sprod\\b", action: "push to prod", severity: "high" },
+      { action: "commit", severity: "low" },
+    ]);
+    expect(errors).toEqual([]);
+    expect(classifyCommand("git push origin prod", "/work", patterns)[0].action).toBe("push to prod");
+    expect(classifyCommand("git commit", "/work", patterns)[0].severity).toBe("low");
+  });
+
+  it("reports invalid entries", () => {
+    const { errors } = buildPatternTable([{ action: "nope", severity: "high" }, { pattern: "(", action: "x", severity: "low" }, "x"]);
+    expect(errors).toHaveLength(3);
+    expect(buildPatternTable({}).errors).toEqual(["safeGit.patterns must be an array"]);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { checkGrant, describeGrant, useGrant, type ApprovalGrant } from "../../grants";
+
+const NOW = Date.parse("2025-01-01T12:00:00Z");
+
+describe("checkGrant", () => {
+  it("keeps time grants until the deadline", () => {
+    const grant: ApprovalGrant = { kind: "time", expiresAt: NOW + 60_000 };
+    expect(checkGrant(grant, "/repo", "main", NOW)).toBe("active");
+    expect(checkGrant(grant, "/repo", "main", NOW + 59_999)).toBe("active");
+    expect(checkGrant(grant, "/repo", "main", NOW + 60_000)).toBe("expired");
+  });
+
+  it("keeps count grants while uses are left", () => {
+    expect(checkGrant({ kind: "count", remaining: 2 }, "/repo", "main", NOW)).toBe("active");
+    expect(checkGrant({ kind: "count", remaining: 0 }, "/repo", "main", NOW)).toBe("expired");
+  });
+
+  it("keeps branch grants while the repository stays on the branch", () => {
+    const grant: ApprovalGrant = { kind: "branch", root: "/repo", branch: "feature" };
+    expect(checkGrant(grant, "/repo", "feature", NOW)).toBe("active");
+    expect(checkGrant(grant, "/repo", "main", NOW)).toBe("expired");
+    expect(checkGrant(grant, "/repo", null, NOW)).toBe("expired");
+  });
+
+  it("leaves branch grants alone in other repositories", () => {
+    const grant: ApprovalGrant = { kind: "branch", root: "/repo", branch: "feature" };
+    expect(checkGrant(grant, "/other", "feature", NOW)).toBe("inactive");
+    expect(checkGrant(grant, null, null, NOW)).toBe("inactive");
+  });
+});
+
+describe("describeGrant", () => {
+  it.each([
+    [{ kind: "time", expiresAt: NOW + 7 * 60_000 + 12_000 }, "7m 12s left"],
+    [{ kind: "time", expiresAt: NOW + 90 * 60_000 }, "1h 30m left"],
+    [{ kind: "time", expiresAt: NOW + 500 }, "1s left"],
+    [{ kind: "count", remaining: 3 }, "3 uses left"],
+    [{ kind: "count", remaining: 1 }, "1 use left"],
+    [{ kind: "count", remaining: 0 }, "last use"],
+    [{ kind: "branch", root: "/repo", branch: "feature" }, "while /repo is on feature"],
+  ] as [ApprovalGrant, string][])("%o", (grant, expected) => {
+    expect(describeGrant(grant, NOW)).toBe(expected);
+  });
+});
+
+describe("useGrant", () => {
+  it("counts down count grants until they are used up", () => {
+    const grant: ApprovalGrant = { kind: "count", remaining: 2 };
+    expect(useGrant(grant)).toBe(false);
+    expect(grant).toEqual({ kind: "count", remaining: 1 });
+    expect(useGrant(grant)).toBe(true);
+    expect(describeGrant(grant, NOW)).toBe("last use");
+  });
+
+  it("leaves other grants alone", () => {
+    const grant: ApprovalGrant = { kind: "time", expiresAt: NOW + 60_000 };
+    expect(useGrant(grant)).toBe(false);
+    expect(grant).toEqual({ kind: "time", expiresAt: NOW + 60_000 });
+  });
+});
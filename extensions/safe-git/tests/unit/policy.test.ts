@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { evaluatePolicy, hasPolicy, type NonInteractivePolicy } from "../../policy";
+
+const POLICY: NonInteractivePolicy = {
+  allow: [
+    { action: "commit", branch: "agent/*" },
+    { action: "push", branch: "agent/*" },
+  ],
+  deny: [{ action: "force push" }],
+};
+
+describe("evaluatePolicy", () => {
+  it("allows operations an allow entry covers", () => {
+    expect(evaluatePolicy(POLICY, "commit", "commit", ["agent/fix"])).toEqual({
+      allowed: true,
+      entry: 'nonInteractivePolicy.allow[0] ("commit" on agent/*)',
+    });
+  });
+
+  it("lets deny entries win over allow entries", () => {
+    const policy = { allow: [{ action: "*" }], deny: [{ action: "push", branch: "main" }] };
+    expect(evaluatePolicy(policy, "push", "push", ["main"])).toEqual({
+      allowed: false,
+      entry: 'nonInteractivePolicy.deny[0] ("push" on main)',
+    });
+    expect(evaluatePolicy(policy, "push", "push", ["agent/fix"]).allowed).toBe(true);
+  });
+
+  it("applies deny entries for the base action to escalated ones", () => {
+    const policy = { allow: [{ action: "*" }], deny: [{ action: "push" }] };
+    expect(evaluatePolicy(policy, "push to protected branch", "push", ["main"]).allowed).toBe(false);
+  });
+
+  it("doesn't let allow entries for the base action cover escalated ones", () => {
+    expect(evaluatePolicy(POLICY, "push to protected branch", "push", ["agent/fix"])).toEqual({ allowed: false, entry: null });
+  });
+
+  it("needs an allow entry for every branch a push targets", () => {
+    expect(evaluatePolicy(POLICY, "push", "push", ["agent/a", "agent/b"]).allowed).toBe(true);
+    expect(evaluatePolicy(POLICY, "push", "push", ["agent/a", "main"])).toEqual({ allowed: false, entry: null });
+  });
+
+  it("never matches branch entries on a detached HEAD", () => {
+    expect(evaluatePolicy(POLICY, "commit", "commit", [null]).allowed).toBe(false);
+    expect(evaluatePolicy({ allow: [{ action: "commit" }] }, "commit", "commit", [null]).allowed).toBe(true);
+  });
+
+  it("blocks what no entry covers", () => {
+    expect(evaluatePolicy(POLICY, "rebase", "rebase", ["agent/fix"])).toEqual({ allowed: false, entry: null });
+    expect(evaluatePolicy({}, "commit", "commit", ["main"])).toEqual({ allowed: false, entry: null });
+  });
+});
+
+describe("hasPolicy", () => {
+  it("is false without usable entries", () => {
+    expect(hasPolicy(undefined)).toBe(false);
+    expect(hasPolicy({})).toBe(false);
+    expect(hasPolicy({ allow: [], deny: [{} as any] })).toBe(false);
+    expect(hasPolicy({ deny: [{ action: "push" }] })).toBe(true);
+  });
+});
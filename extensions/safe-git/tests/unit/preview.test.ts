@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { resetTarget } from "../../preview";
+
+describe("resetTarget", () => {
+  it.each([
+    [["--hard"], "HEAD"],
+    [["--hard", "HEAD~2"], "HEAD~2"],
+    [["-q", "--hard", "origin/main"], "origin/main"],
+    [["--hard", "--recurse-submodules", "v1.0"], "v1.0"],
+    [["--hard", "v1.0", "--"], "v1.0"],
+  ])("%j resets to %s", (args, expected) => {
+    expect(resetTarget(args)).toBe(expected);
+  });
+
+  it("doesn't take a path after -- for the revision", () => {
+    expect(resetTarget(["--hard", "--", "src"])).toBe("HEAD");
+  });
+});
@@ -0,0 +1,99 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { findGitInvocations, type GitMatch } from "../../classify";
+import { expandBranchPatterns, PROTECTED_SUFFIX, resolvePushTarget, scorePush, UNTRUSTED_SUFFIX, type BranchPolicy, type PushTarget } from "../../risk";
+
+const POLICY: BranchPolicy = {
+  protectedBranches: ["main", "release/*"],
+  personalBranches: ["me/*"],
+  trustedRemotes: ["origin"],
+};
+
+function target(branches: string[], overrides: Partial<PushTarget> = {}): PushTarget {
+  return { remote: "origin", branches, sources: branches, allBranches: false, deletes: false, ...overrides };
+}
+
+function push(action = "push", severity: GitMatch["severity"] = "medium"): GitMatch {
+  const [invocation] = findGitInvocations("git push", "/work");
+  return { action, severity, invocation };
+}
+
+describe("scorePush", () => {
+  it.each([
+    ["a protected branch", target(["main"]), "push" + PROTECTED_SUFFIX, "high"],
+    ["a protected glob", target(["feature", "release/2.0"]), "push" + PROTECTED_SUFFIX, "high"],
+    ["every branch", target([], { allBranches: true }), "push" + PROTECTED_SUFFIX, "high"],
+    ["an untrusted remote", target(["feature"], { remote: "fork" }), "push" + UNTRUSTED_SUFFIX, "high"],
+    ["a personal branch", target(["me/wip"]), "push", "low"],
+    ["a personal branch deletion", target(["me/wip"], { deletes: true }), "push", "medium"],
+    ["any other branch", target(["feature"]), "push", "medium"],
+  ])("pushing to %s", (_, pushTarget, action, severity) => {
+    const assessment = scorePush(push(), pushTarget, POLICY);
+    expect([assessment.action, assessment.severity]).toEqual([action, severity]);
+  });
+
+  it("checks protected branches before the remote", () => {
+    const assessment = scorePush(push("force push", "high"), target(["main"], { remote: "fork" }), POLICY);
+    expect(assessment.action).toBe("force push" + PROTECTED_SUFFIX);
+    expect(assessment.notes).toEqual(["targets protected branch main"]);
+  });
+});
+
+describe("expandBranchPatterns", () => {
+  it("replaces {user} with the local username", () => {
+    const user = os.userInfo().username;
+    expect(expandBranchPatterns(["{user}/*", "main"])).toEqual([`${user}/*`, "main"]);
+  });
+});
+
+describe("resolvePushTarget", () => {
+  let repo: string;
+  const git = (...args: string[]) => execFileSync("git", args, { cwd: repo });
+  const resolve = async (command: string, branch: string | null = "main") =>
+    resolvePushTarget(findGitInvocations(command, repo)[0], branch);
+
+  beforeAll(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), "safe-git-risk-"));
+    git("init", "-q");
+    git("config", "branch.main.remote", "upstream");
+    git("config", "branch.main.merge", "refs/heads/trunk");
+  });
+
+  afterAll(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it.each([
+    ["git push origin feature", { remote: "origin", branches: ["feature"], sources: ["feature"] }],
+    ["git push origin HEAD:main", { remote: "origin", branches: ["main"], sources: ["HEAD"] }],
+    ["git push origin HEAD", { remote: "origin", branches: ["main"], sources: ["HEAD"] }],
+    ["git push origin +x:y", { remote: "origin", branches: ["y"], sources: ["x"] }],
+    ["git push origin x:refs/heads/y", { remote: "origin", branches: ["y"], sources: ["x"] }],
+    ["git push fork -- a b", { remote: "fork", branches: ["a", "b"], sources: ["a", "b"] }],
+    ["git push --repo=fork -o ci.skip feature", { remote: "fork", branches: ["feature"], sources: ["feature"] }],
+  ])("%s", async (command, expected) => {
+    expect(await resolve(command)).toMatchObject(expected);
+  });
+
+  it("detects deletions", async () => {
+    expect(await resolve("git push origin :old")).toMatchObject({ branches: ["old"], deletes: true });
+    expect(await resolve("git push origin --delete old")).toMatchObject({ branches: ["old"], deletes: true });
+  });
+
+  it("flags --all and --mirror", async () => {
+    expect(await resolve("git push --all origin")).toMatchObject({ allBranches: true, branches: [] });
+  });
+
+  it("falls back to the upstream without a refspec", async () => {
+    expect(await resolve("git push")).toMatchObject({ remote: "upstream", branches: ["trunk"], sources: ["main"] });
+    // Another remote gets the current branch's name
+    expect(await resolve("git push origin")).toMatchObject({ remote: "origin", branches: ["main"] });
+  });
+
+  it("falls back to origin without any configuration", async () => {
+    expect(await resolve("git push", "feature")).toMatchObject({ remote: "origin", branches: ["feature"] });
+  });
+});
@@ -0,0 +1,117 @@
+import { afterAll, afterEach, describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { addRule, findRule, globToRegExp, GLOBAL_RULES_PATH, loadRules, type ScopedRule } from "../../rules";
+
+// Keep the global rules file out of the real home directory
+vi.mock("node:os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:os")>();
+  const { mkdtempSync } = await import("node:fs");
+  const { join } = await import("node:path");
+  const home = mkdtempSync(join(actual.tmpdir(), "safe-git-home-"));
+  return { ...actual, homedir: () => home };
+});
+
+afterAll(() => {
+  fs.rmSync(os.homedir(), { recursive: true, force: true });
+});
+
+function rule(action: string, decision: "allow" | "block", branch?: string, scope: ScopedRule["scope"] = "global"): ScopedRule {
+  return { action, decision, ...(branch ? { branch } : {}), scope, index: 0 };
+}
+
+describe("globToRegExp", () => {
+  it.each([
+    ["main", "main", true],
+    ["main", "main2", false],
+    ["release/*", "release/1.0", true],
+    ["release/*", "release/1.0/hotfix", false],
+    ["release/**", "release/1.0/hotfix", true],
+    ["feat-?", "feat-a", true],
+    ["feat-?", "feat-ab", false],
+    ["v1.0", "v1x0", false],
+  ])("%s matches %s: %s", (glob, branch, expected) => {
+    expect(globToRegExp(glob).test(branch)).toBe(expected);
+  });
+});
+
+describe("findRule", () => {
+  it("prefers block rules over allow rules", () => {
+    const rules = [rule("push", "allow"), rule("*", "block")];
+    expect(findRule(rules, "push", "main")).toBe(rules[1]);
+  });
+
+  it("matches the action exactly or through *", () => {
+    const rules = [rule("push", "allow")];
+    expect(findRule(rules, "push", "main")).toBe(rules[0]);
+    expect(findRule(rules, "force push", "main")).toBeNull();
+    expect(findRule([rule("*", "allow")], "commit", null)?.decision).toBe("allow");
+  });
+
+  it("matches branch globs against the current branch", () => {
+    const rules = [rule("push", "block", "release/*"), rule("push", "allow")];
+    expect(findRule(rules, "push", "release/2.0")?.decision).toBe("block");
+    expect(findRule(rules, "push", "main")?.decision).toBe("allow");
+    // A detached HEAD never matches a branch rule
+    expect(findRule(rules, "push", null)?.decision).toBe("allow");
+  });
+});
+
+describe("loadRules", () => {
+  const roots: string[] = [];
+
+  function createRepo(projectRules?: object): string {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "safe-git-repo-"));
+    roots.push(root);
+    if (projectRules) {
+      fs.mkdirSync(path.join(root, ".pi"));
+      fs.writeFileSync(path.join(root, ".pi", "safe-git.json"), JSON.stringify(projectRules));
+    }
+    return root;
+  }
+
+  afterEach(() => {
+    for (const root of roots.splice(0)) fs.rmSync(root, { recursive: true, force: true });
+    fs.rmSync(GLOBAL_RULES_PATH, { force: true });
+  });
+
+  it("ignores allow rules from the repository's own rules file", async () => {
+    const root = createRepo({
+      rules: [
+        { action: "*", decision: "allow" },
+        { action: "force push", decision: "block", branch: "main" },
+      ],
+    });
+
+    const rules = await loadRules(root);
+    expect(rules).toEqual([{ action: "force push", decision: "block", branch: "main", scope: "project", index: 1 }]);
+    expect(findRule(rules, "commit", "main")).toBeNull();
+  });
+
+  it("reads the user's rules for a repository from the global file", async () => {
+    const root = createRepo();
+    const other = createRepo();
+    await addRule("repo", root, { action: "commit", decision: "allow" });
+    await addRule("global", root, { action: "push", decision: "block" });
+
+    expect((await loadRules(root)).map((r) => [r.scope, r.action])).toEqual([
+      ["repo", "commit"],
+      ["global", "push"],
+    ]);
+    expect((await loadRules(other)).map((r) => [r.scope, r.action])).toEqual([["global", "push"]]);
+    expect(fs.existsSync(path.join(root, ".pi", "safe-git.json"))).toBe(false);
+  });
+
+  it("refuses to add allow rules to the repository's rules file", async () => {
+    const root = createRepo();
+    await expect(addRule("project", root, { action: "push", decision: "allow" })).rejects.toThrow(/ignored/);
+  });
+
+  it("reports rules files that aren't valid JSON", async () => {
+    const root = createRepo();
+    fs.mkdirSync(path.join(root, ".pi"));
+    fs.writeFileSync(path.join(root, ".pi", "safe-git.json"), "{ nope");
+    await expect(loadRules(root)).rejects.toThrow(/Invalid safe-git rules file/);
+  });
+});
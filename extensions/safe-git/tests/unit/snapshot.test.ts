@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { cleanDryRunArgs } from "../../snapshot";
+
+describe("cleanDryRunArgs", () => {
+  it.each([
+    [["clean", "-fdx"], ["clean", "-n", "-fdx"]],
+    [["clean", "-f", "-X"], ["clean", "-n", "-f", "-X"]],
+    [["clean", "-fx", "--", "build"], ["clean", "-n", "-fx", "--", "build"]],
+    [["clean", "-fdx", "-e", "keep.env"], ["clean", "-n", "-fdx", "-e", "keep.env"]],
+  ])("lists what %j removes", (args, expected) => {
+    expect(cleanDryRunArgs(args)).toEqual(expected);
+  });
+
+  it("drops interactive and quiet flags so the list is printed", () => {
+    expect(cleanDryRunArgs(["clean", "-fdxq"])).toEqual(["clean", "-n", "-fdx"]);
+    expect(cleanDryRunArgs(["clean", "-x", "-i", "--quiet", "-f"])).toEqual(["clean", "-n", "-x", "-f"]);
+  });
+
+  it("ignores cleans that leave ignored files alone", () => {
+    expect(cleanDryRunArgs(["clean", "-fd"])).toBeNull();
+    expect(cleanDryRunArgs(["clean", "-f", "--", "-x"])).toBeNull();
+    // "x" in an exclude pattern is not the flag
+    expect(cleanDryRunArgs(["clean", "-fdexyz"])).toBeNull();
+    expect(cleanDryRunArgs(["clean", "-f", "-e", "-x"])).toBeNull();
+  });
+});
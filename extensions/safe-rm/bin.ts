@@ -0,0 +1,290 @@
+/**
+ * Where safe-rm puts removed files
+ *
+ * A bin is the OS trash or the project's quarantine. Files are moved into
+ * it the way the intercepted command would have removed them: rm's flags
+ * decide what may go, and what may not is reported with rm's own errors.
+ * Used by helper.ts, which moves (or copies) the files of each step of a
+ * command when the shell gets there (see DeferredStep), and in-process by
+ * the extension for /saferm-restore and the macOS trash fallback.
+ */
+
+import * as child_process from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import type { FileStatus, LogFile } from './log';
+import type { RmFlags } from './parse';
+import { measureBlastRadius, protectedReason, type ProtectionConfig } from './protect';
+import { createBatch, quarantinePath, saveBatch, type QuarantineBatch } from './quarantine';
+import { appendTrashRecords, recordFromTrashedItem, type TrashRecord } from './restore';
+import { resolveTargets, type TargetSource, type TrashTarget } from './targets';
+import { trashPath } from './trash';
+
+const execFileAsync = promisify(child_process.execFile);
+
+/** The command an item was removed by, for the trash log and quarantine manifest */
+export type TrashOrigin = { cwd: string; command: string };
+
+export interface Bin {
+  /** "the trash" or "the quarantine", for messages */
+  name: string;
+  /** Log status of the items moved in */
+  status: FileStatus;
+  /** Move an item in; returns where it went */
+  move(absolute: string): Promise<string>;
+  /** Put a copy of an item that is about to be overwritten in; returns where it went, when known */
+  copy(absolute: string): Promise<string | null>;
+  /** Record what went in (trash log, quarantine manifest); returns a warning when the trash log couldn't be written */
+  finish(): Promise<string | null>;
+}
+
+/** How a bin is opened, in a form that can be handed to helper.ts */
+export type BinSpec = { kind: 'trash'; trashLogPath: string } | { kind: 'quarantine'; root: string };
+
+/**
+ * A step of a command that helper.ts carries out when the shell reaches
+ * it: it reads this from its spec file, works out the targets from `words`
+ * as they are then, and appends the outcome of each target to `resultPath`
+ * as JSON lines (LogFile). The file is created even when there were none.
+ */
+export type DeferredStep = DeferredAction & {
+  /** The words naming the targets, as written */
+  words: string[];
+  source: TargetSource;
+  bin: BinSpec;
+  origin: TrashOrigin;
+  /** Checked again for what `words` match when the step runs */
+  protection: ProtectionConfig;
+  resultPath: string;
+};
+
+/** Move the targets to the bin the way `tool` would remove them, or copy them before the command overwrites them */
+export type DeferredAction = { action: 'remove'; tool: string; flags: RmFlags } | { action: 'copy' };
+
+/**
+ * What trashFiles did: report lines for stdout, rm-style errors for stderr,
+ * and warnings for stderr that don't make the command fail
+ */
+export interface TrashReport {
+  moved: number;
+  lines: string[];
+  errors: string[];
+  warnings: string[];
+  logged: LogFile[];
+}
+
+export function openBin(spec: BinSpec, origin: TrashOrigin): Bin {
+  return spec.kind === 'quarantine' ? openQuarantine(spec.root, origin) : openTrash(spec.trashLogPath, origin);
+}
+
+/**
+ * The OS trash as a bin; trashed items are recorded for /saferm-restore.
+ */
+export function openTrash(trashLogPath: string, origin: TrashOrigin): Bin {
+  const records: TrashRecord[] = [];
+  return {
+    name: 'the trash',
+    status: 'trashed',
+    move: async (absolute) => {
+      const item = await trashPath(absolute);
+      records.push(recordFromTrashedItem(item, origin.cwd, origin.command));
+      return item.trashedPath;
+    },
+    copy: async (absolute) => {
+      const copied = await copyToTrash(absolute, origin);
+      records.push(copied.record);
+      return copied.destination;
+    },
+    finish: () => recordTrashed(trashLogPath, records),
+  };
+}
+
+/**
+ * The project's quarantine as a bin: one batch per command, created on
+ * first use.
+ */
+export function openQuarantine(root: string, origin: TrashOrigin): Bin {
+  let batch: QuarantineBatch | null = null;
+  const open = async () => (batch ??= await createBatch(root, origin.cwd, origin.command));
+  return {
+    name: 'the quarantine',
+    status: 'quarantined',
+    move: async (absolute) => quarantinePath(await open(), absolute),
+    copy: async (absolute) => quarantinePath(await open(), absolute, { copy: true }),
+    finish: async () => {
+      if (batch) await saveBatch(batch);
+      return null;
+    },
+  };
+}
+
+/**
+ * Move files to the bin the way `tool` would remove them. Nothing is ever
+ * deleted: items the flags don't allow (missing, directories without -r)
+ * or that can't be moved stay where they are, with the error rm would give.
+ */
+export async function trashFiles(tool: string, flags: RmFlags, targets: TrashTarget[], bin: Bin): Promise<TrashReport> {
+  let moved = 0;
+  const lines: string[] = [];
+  const errors: string[] = [];
+  const logged: LogFile[] = [];
+  const fail = (absolute: string, size: number | null, error: string) => {
+    errors.push(error);
+    logged.push({ path: absolute, size, status: 'failed', error });
+  };
+
+  for (const { arg, absolute } of targets) {
+    let stat: fs.Stats;
+    try {
+      stat = fs.lstatSync(absolute);
+    } catch {
+      const error = `${tool}: cannot remove '${arg}': No such file or directory`;
+      if (!flags.force) fail(absolute, null, error);
+      else logged.push({ path: absolute, size: null, status: 'failed', error });
+      continue;
+    }
+
+    const size = measureSize(absolute);
+
+    if (flags.dirsOnly && !stat.isDirectory()) {
+      fail(absolute, size, `${tool}: cannot remove '${arg}': Not a directory`);
+      continue;
+    }
+
+    if (stat.isDirectory() && !flags.recursive) {
+      const empty = fs.readdirSync(absolute).length === 0;
+      if (!flags.emptyDirs || !empty) {
+        fail(absolute, size, `${tool}: cannot remove '${arg}': ${flags.emptyDirs ? 'Directory not empty' : 'Is a directory'}`);
+        continue;
+      }
+    }
+
+    try {
+      const destination = await bin.move(absolute);
+      moved++;
+      lines.push(`safe-rm: moved '${arg}' to ${tildify(destination)}`);
+      logged.push({ path: absolute, size, status: bin.status, destination });
+    } catch (e) {
+      fail(absolute, size, `safe-rm: could not move '${arg}' to ${bin.name} (left in place): ${e instanceof Error ? e.message : e}`);
+    }
+  }
+
+  return { moved, lines, errors, warnings: [], logged };
+}
+
+/**
+ * Carry out a deferred step in `cwd`, the directory the shell is in when it
+ * gets there. Protected paths a glob matches only now stay in place, with
+ * an error like the ones safe-rm gives before a command runs.
+ */
+export async function runDeferredStep(step: DeferredStep, cwd: string): Promise<TrashReport> {
+  const targets = resolveTargets(step.source, step.words, cwd);
+  if (!targets) throw new Error(`can't tell which files ${step.words.join(' ')} names`);
+
+  const bin = openBin(step.bin, step.origin);
+  if (step.action === 'copy') {
+    const report = await copyFiles(targets, bin);
+    const warning = await bin.finish();
+    return { ...report, warnings: warning ? [warning] : [] };
+  }
+
+  const allowed: TrashTarget[] = [];
+  const refused: TrashReport = { moved: 0, lines: [], errors: [], warnings: [], logged: [] };
+  for (const target of targets) {
+    const why = protectedReason(target.absolute, step.origin.cwd, step.protection);
+    if (!why) {
+      allowed.push(target);
+      continue;
+    }
+    const error = `safe-rm: refusing to remove '${target.arg}' (${why}); left in place`;
+    refused.errors.push(error);
+    refused.logged.push({ path: target.absolute, size: measureSize(target.absolute), status: 'skipped', error });
+  }
+
+  const report = await trashFiles(step.tool, step.flags, allowed, bin);
+  const warning = await bin.finish();
+  return {
+    moved: report.moved,
+    lines: report.lines,
+    errors: [...refused.errors, ...report.errors],
+    warnings: warning ? [warning] : [],
+    logged: [...refused.logged, ...report.logged],
+  };
+}
+
+/**
+ * Bytes in and under a path, or null if it doesn't exist.
+ */
+export function measureSize(absolute: string): number | null {
+  try {
+    fs.lstatSync(absolute);
+  } catch {
+    return null;
+  }
+  return measureBlastRadius([absolute], Infinity, Infinity).bytes;
+}
+
+/**
+ * Record trashed items for /saferm-restore. Failing to record never blocks
+ * the trash: the problem is returned as a warning for the caller to show.
+ */
+export async function recordTrashed(trashLogPath: string, records: TrashRecord[]): Promise<string | null> {
+  try {
+    await appendTrashRecords(trashLogPath, records);
+    return null;
+  } catch (e) {
+    return `safe-rm: could not record trashed items for /saferm-restore in ${tildify(trashLogPath)}: ${e instanceof Error ? e.message : e}`;
+  }
+}
+
+/**
+ * Shorten paths under the home directory for display.
+ */
+export function tildify(p: string): string {
+  const home = os.homedir();
+  return p === home || p.startsWith(home + path.sep) ? '~' + p.slice(home.length) : p;
+}
+
+// Put a copy of a file that is about to be overwritten in the trash. The
+// destination isn't known with the macOS `trash` command.
+async function copyToTrash(absolute: string, origin: TrashOrigin): Promise<{ record: TrashRecord; destination: string | null }> {
+  if (os.platform() !== 'darwin') {
+    const item = await trashPath(absolute, { copy: true });
+    return { record: recordFromTrashedItem(item, origin.cwd, origin.command), destination: item.trashedPath };
+  }
+
+  // `trash` only moves, so it moves a copy made under the same name
+  const timestamp = new Date().toISOString();
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'safe-rm-'));
+  try {
+    const copy = path.join(dir, path.basename(absolute));
+    await fs.promises.cp(absolute, copy, { recursive: true, verbatimSymlinks: true });
+    await execFileAsync('trash', [copy]);
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+  return { record: { timestamp, cwd: origin.cwd, command: origin.command, originalPath: absolute }, destination: null };
+}
+
+// Put copies of files that are about to be overwritten in the bin. Nothing
+// is printed for them; a copy that fails is reported as an error.
+async function copyFiles(targets: TrashTarget[], bin: Bin): Promise<TrashReport> {
+  const errors: string[] = [];
+  const logged: LogFile[] = [];
+
+  for (const { arg, absolute } of targets) {
+    const size = measureSize(absolute);
+    try {
+      const destination = await bin.copy(absolute);
+      logged.push({ path: absolute, size, status: 'copied', ...(destination ? { destination } : {}) });
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      errors.push(`safe-rm: could not copy '${arg}' to ${bin.name} before it is overwritten: ${message}`);
+      logged.push({ path: absolute, size, status: 'failed', error: `copy failed: ${message}` });
+    }
+  }
+
+  return { moved: 0, lines: [], errors, warnings: [], logged };
+}
@@ -0,0 +1,203 @@
+/**
+ * Shell word expansion for safe-rm
+ *
+ * Where files are trashed in-process (non-macOS), safe-rm has to work out
+ * the arguments rm would have received. This expands a word's raw source
+ * text the way bash would for the cases that can be known up front:
+ * quoting, `~`, `{a,b}` braces and `*`/`?`/`[...]` globs (no match leaves
+ * the word as is, like bash without nullglob).
+ *
+ * Words with parameter or command substitution (`$f`, `$(...)`, backticks)
+ * depend on the running shell and are reported as unknown.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+interface Char {
+  ch: string;
+  quoted: boolean;
+}
+
+/**
+ * Expand a word (raw source text, quotes included) into the arguments the
+ * shell would pass, relative to `cwd` as written. Returns null when the word
+ * depends on substitutions.
+ */
+export function expandWord(raw: string, cwd: string): string[] | null {
+  const chars = unquote(raw);
+  if (!chars) return null;
+
+  const results: string[] = [];
+  for (const alternative of expandBraces(expandTilde(chars))) {
+    results.push(...expandGlob(alternative, cwd));
+  }
+  return results;
+}
+
+/**
+ * Split raw word text into characters tagged with whether they were quoted
+ * or escaped. Null if the word contains a substitution.
+ */
+function unquote(raw: string): Char[] | null {
+  const chars: Char[] = [];
+  let i = 0;
+
+  while (i < raw.length) {
+    const ch = raw[i];
+
+    if (ch === '\\') {
+      if (i + 1 < raw.length) chars.push({ ch: raw[i + 1], quoted: true });
+      i += 2;
+      continue;
+    }
+
+    if (ch === "'") {
+      const close = raw.indexOf("'", i + 1);
+      const end = close === -1 ? raw.length : close;
+      for (const c of raw.slice(i + 1, end)) chars.push({ ch: c, quoted: true });
+      i = end + 1;
+      continue;
+    }
+
+    if (ch === '"') {
+      i++;
+      while (i < raw.length && raw[i] !== '"') {
+        const c = raw[i];
+        if (c === '$' || c === '`') return null;
+        if (c === '\\' && i + 1 < raw.length && '$`"\\'.includes(raw[i + 1])) {
+          chars.push({ ch: raw[i + 1], quoted: true });
+          i += 2;
+          continue;
+        }
+        chars.push({ ch: c, quoted: true });
+        i++;
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === '$' || ch === '`') return null;
+
+    chars.push({ ch, quoted: false });
+    i++;
+  }
+
+  return chars;
+}
+
+function expandTilde(chars: Char[]): Char[] {
+  if (chars[0]?.ch !== '~' || chars[0].quoted) return chars;
+  if (chars.length > 1 && chars[1].ch !== '/') return chars; // ~user: left as is
+  return [...[...os.homedir()].map((ch) => ({ ch, quoted: true })), ...chars.slice(1)];
+}
+
+/**
+ * Expand the first unquoted `{a,b,...}` group, recursively.
+ */
+function expandBraces(chars: Char[]): Char[][] {
+  for (let open = 0; open < chars.length; open++) {
+    if (chars[open].quoted || chars[open].ch !== '{') continue;
+
+    let level = 0;
+    const commas: number[] = [];
+    for (let i = open; i < chars.length; i++) {
+      const { ch, quoted } = chars[i];
+      if (quoted) continue;
+      if (ch === '{') level++;
+      else if (ch === ',' && level === 1) commas.push(i);
+      else if (ch === '}' && --level === 0) {
+        if (commas.length === 0) break;
+        const prefix = chars.slice(0, open);
+        const suffix = chars.slice(i + 1);
+        const bounds = [open, ...commas, i];
+        const results: Char[][] = [];
+        for (let b = 0; b < bounds.length - 1; b++) {
+          const alternative = chars.slice(bounds[b] + 1, bounds[b + 1]);
+          results.push(...expandBraces([...prefix, ...alternative, ...suffix]));
+        }
+        return results;
+      }
+    }
+  }
+  return [chars];
+}
+
+function expandGlob(chars: Char[], cwd: string): string[] {
+  const literal = chars.map((c) => c.ch).join('');
+  if (!chars.some((c) => !c.quoted && '*?['.includes(c.ch))) return [literal];
+
+  // Split into path segments; only segments with unquoted glob chars are matched
+  const segments: Char[][] = [[]];
+  for (const c of chars) {
+    if (c.ch === '/') segments.push([]);
+    else segments[segments.length - 1].push(c);
+  }
+
+  const absolute = literal.startsWith('/');
+  let matches: string[] = [absolute ? '/' : ''];
+  for (let s = absolute ? 1 : 0; s < segments.length; s++) {
+    const segment = segments[s];
+    const isLast = s === segments.length - 1;
+    if (segment.length === 0) {
+      // Trailing or doubled slash
+      matches = matches.map((m) => (isLast ? m + '/' : m));
+      continue;
+    }
+
+    const next: string[] = [];
+    const pattern = segmentPattern(segment);
+    for (const prefix of matches) {
+      if (!pattern) {
+        next.push(prefix + segment.map((c) => c.ch).join('') + (isLast ? '' : '/'));
+        continue;
+      }
+      let entries: string[];
+      try {
+        entries = fs.readdirSync(path.resolve(cwd, prefix || '.'));
+      } catch {
+        continue;
+      }
+      for (const entry of entries.sort()) {
+        if (entry.startsWith('.') && segment[0].ch !== '.') continue;
+        if (pattern.test(entry)) next.push(prefix + entry + (isLast ? '' : '/'));
+      }
+    }
+    matches = next;
+  }
+
+  // Intermediate literal segments may not exist; keep only real paths
+  const found = matches.filter((m) => fs.existsSync(path.resolve(cwd, m)));
+  return found.length > 0 ? found : [literal];
+}
+
+/**
+ * Regex for a path segment with unquoted glob characters, or null if it has none.
+ */
+function segmentPattern(segment: Char[]): RegExp | null {
+  if (!segment.some((c) => !c.quoted && '*?['.includes(c.ch))) return null;
+
+  let source = '';
+  for (let i = 0; i < segment.length; i++) {
+    const { ch, quoted } = segment[i];
+    if (!quoted && ch === '*') {
+      source += '.*';
+    } else if (!quoted && ch === '?') {
+      source += '.';
+    } else if (!quoted && ch === '[') {
+      const close = segment.findIndex((c, j) => j > i + 1 && c.ch === ']' && !c.quoted);
+      if (close === -1) {
+        source += '\\[';
+        continue;
+      }
+      let body = segment.slice(i + 1, close).map((c) => c.ch).join('');
+      if (body.startsWith('!')) body = '^' + body.slice(1);
+      source += `[${body.replace(/\\/g, '\\\\')}]`;
+      i = close;
+    } else {
+      source += ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,101 @@
+/**
+ * Git state of removal targets for safe-rm
+ *
+ * Whether a file is recoverable after it leaves the trash depends on git:
+ * a clean tracked file can be checked out again and an ignored one is
+ * usually a build artefact, but modified and untracked files only exist on
+ * disk. `git status` is run once per repository for all targets in it.
+ */
+
+import * as child_process from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * - "modified": tracked, with changes that aren't committed
+ * - "untracked": not tracked and not ignored
+ * - "clean": tracked and unchanged
+ * - "ignored": matched by .gitignore
+ */
+export type GitState = 'modified' | 'untracked' | 'clean' | 'ignored';
+
+/**
+ * The git state of each target (absolute paths), or null outside a
+ * repository (or when git fails). A directory takes the state of its
+ * contents: modified if a file in it is, else untracked if a file in it is,
+ * else clean if git tracks something in it, else ignored.
+ */
+export function gitStates(targets: string[]): Map<string, GitState | null> {
+  const states = new Map<string, GitState | null>();
+  const byRepo = new Map<string, string[]>();
+  for (const target of targets) {
+    const root = findRepoRoot(path.dirname(target));
+    if (!root) {
+      states.set(target, null);
+      continue;
+    }
+    if (!byRepo.has(root)) byRepo.set(root, []);
+    byRepo.get(root)!.push(target);
+  }
+
+  for (const [root, paths] of byRepo) {
+    const pathspecs = paths.map((p) => `:(literal)${path.relative(root, p) || '.'}`);
+    const status = git(root, ['status', '--porcelain=v1', '-z', '--ignored=matching', '--untracked-files=all', '--', ...pathspecs]);
+    const tracked = git(root, ['ls-files', '-z', '--', ...pathspecs]);
+    if (status === null || tracked === null) {
+      for (const p of paths) states.set(p, null);
+      continue;
+    }
+
+    const entries = parseStatus(status, root);
+    const trackedPaths = tracked.split('\0').filter(Boolean).map((p) => path.join(root, p));
+    for (const p of paths) {
+      // Entries inside the target, or an untracked/ignored directory around it
+      const codes = entries.filter((e) => contains(p, e.path) || contains(e.path, p)).map((e) => e.code);
+      if (codes.some((code) => code !== '??' && code !== '!!' && !code.includes('D'))) states.set(p, 'modified');
+      else if (codes.includes('??')) states.set(p, 'untracked');
+      else if (trackedPaths.some((t) => contains(p, t))) states.set(p, 'clean');
+      else if (codes.includes('!!')) states.set(p, 'ignored');
+      // Unknown to git, like an empty directory
+      else states.set(p, 'untracked');
+    }
+  }
+
+  return states;
+}
+
+/**
+ * The repository containing `dir`: the nearest directory with a `.git`.
+ */
+export function findRepoRoot(dir: string): string | null {
+  for (let current = dir; ; current = path.dirname(current)) {
+    if (fs.existsSync(path.join(current, '.git'))) return current;
+    if (path.dirname(current) === current) return null;
+  }
+}
+
+// `git status --porcelain=v1 -z` entries with absolute paths
+function parseStatus(output: string, root: string): { code: string; path: string }[] {
+  const entries: { code: string; path: string }[] = [];
+  const fields = output.split('\0');
+  for (let i = 0; i < fields.length; i++) {
+    const field = fields[i];
+    if (field.length < 4) continue;
+    const code = field.slice(0, 2);
+    entries.push({ code, path: path.join(root, field.slice(3)) });
+    // Renames and copies are followed by the old path
+    if (code[0] === 'R' || code[0] === 'C') i++;
+  }
+  return entries;
+}
+
+function git(cwd: string, args: string[]): string | null {
+  const result = child_process.spawnSync('git', args, { cwd, encoding: 'utf8', timeout: 10_000, maxBuffer: 64 * 1024 * 1024 });
+  return result.status === 0 ? result.stdout : null;
+}
+
+// True if `child` is `parent` or inside it
+function contains(parent: string, child: string): boolean {
+  const relative = path.relative(parent, child);
+  return relative === '' || (relative !== '..' && !relative.startsWith('..' + path.sep) && !path.isAbsolute(relative));
+}
@@ -0,0 +1,40 @@
+/**
+ * Deferred steps for safe-rm
+ *
+ * safe-rm changes nothing on disk before a command runs: another extension
+ * may still block it, and only the shell knows which parts of it run and
+ * what files exist by then (`make && rm -f *.o`). Each removal is replaced
+ * with `node helper.js <spec>`, and each command that overwrites files is
+ * preceded by one that copies them, so files go to the trash or quarantine
+ * when the shell gets there, and not at all when it doesn't.
+ *
+ * The spec (see DeferredStep in bin.ts) holds the words naming the files,
+ * expanded here against what exists now, and the checks safe-rm made before
+ * the command ran. For a removal this prints what was moved, rm's errors on
+ * stderr and exits with 1 when there were any; for copies only failures are
+ * printed, on stderr. A trash log that can't be written is reported on
+ * stderr too, without failing the command. The outcome of each file is appended to the spec's
+ * results file for the log.
+ *
+ * Built to helper.js next to the extension by `npm run build:safe-rm`.
+ */
+
+import * as fs from 'fs';
+import { runDeferredStep, type DeferredStep } from './bin';
+
+async function main(specPath: string | undefined) {
+  if (!specPath) throw new Error('usage: helper.js <spec.json>');
+  const spec = JSON.parse(await fs.promises.readFile(specPath, 'utf8')) as DeferredStep;
+
+  const report = await runDeferredStep(spec, process.cwd());
+  await fs.promises.appendFile(spec.resultPath, report.logged.map(file => JSON.stringify(file) + '\n').join(''));
+
+  for (const line of report.lines) console.log(line);
+  for (const error of [...report.errors, ...report.warnings]) console.error(error);
+  process.exitCode = report.errors.length > 0 ? 1 : 0;
+}
+
+main(process.argv[2]).catch((e) => {
+  console.error(`safe-rm: nothing was removed: ${e instanceof Error ? e.message : e}`);
+  process.exitCode = 1;
+});
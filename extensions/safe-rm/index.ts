@@ -1,32 +1,233 @@
 /**
  * Safe-RM Extension
  *
- * Intercepts rm commands and replaces them with macOS `trash` command.
- * Logs both original and replacement commands to debug log file.
- * Carefully detects rm to avoid false positives.
+ * Intercepts rm commands and moves the files to the trash instead:
+ * - macOS: replaces the command with the built-in `trash` command
+ * - Other systems: replaces each removal with helper.ts, which moves the
+ *   files to the FreeDesktop.org trash (~/.local/share/Trash, or a
+ *   per-mount .Trash-$UID; see trash.ts) when the shell gets to it, and
+ *   prints what was moved, plus rm's errors for missing files or
+ *   directories without -r
+ * Every command it acts on is logged as JSON lines (logPath, rotated by
+ * size; see log.ts) with each file's size and outcome; /saferm-log shows
+ * them as a filterable table.
+ * Records each trashed item (trashLogPath) so /saferm-restore can put it back.
+ * rm is found with the shared shell tokenizer (see parse.ts), so only the rm
+ * segments of compound commands, pipelines, subshells and `sh -c` scripts
+ * are rewritten.
+ * Other destructive commands (safeRm.detectors) are handled the same way:
+ * unlink, rmdir, shred, `mv ... /dev/null` and find -delete/-exec rm go to
+ * the trash instead; files that git rm, truncate or `>` would overwrite are
+ * copied to the trash by helper.ts just before that part of the command runs. When the files can't be
+ * known up front, the user confirms (blocked without a UI).
+ * Protected paths (/, ~, repositories, .git, outside the project) are never
+ * removed, and removals over maxFiles/maxMegabytes need confirmation (see
+ * protect.ts).
+ * With mode "quarantine", removed files go to the project's .pi/quarantine
+ * instead of the OS trash (see quarantine.ts); /saferm-quarantine lists,
+ * restores and purges them, and retention is enforced on session start.
+ * On macOS, each rewritten call's result is checked: when `trash` failed
+ * (missing, non-zero exit with files left), the user is told and the files
+ * are moved to ~/.Trash in-process (trashFallback).
+ * With confirm on, every removal is shown with sizes and git status and the
+ * user picks trash, permanent delete or skip (nonInteractivePolicy decides
+ * without a UI).
+ * Removing uncommitted work (modified or untracked files in a git
+ * repository) is warned about or needs confirmation (gitSafety); clean
+ * tracked files and ignored build output go through without a word.
  */
 
-import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import type { ExtensionAPI, ExtensionContext } from "@mariozechner/pi-coding-agent";
+import * as child_process from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { promisify } from 'util';
+import { parseDateArg, shellQuote, type ShellCommand, type ShellWord } from '../../shared';
+import { expandWord } from './expand';
+import {
+  appendLogEntry,
+  clearLog,
+  filterLogEntries,
+  readLog,
+  type FileStatus,
+  type LogEntry,
+  type LogFile,
+  type LogFilter,
+  type LogOutcome,
+  type LogRotation,
+} from './log';
+import {
+  applyReplacements,
+  findRmSegments,
+  parseRmFlags,
+  removalFlags,
+  rewriteRange,
+  wrapRange,
+  type Detectors,
+  type NestedScript,
+  type RmFlags,
+} from './parse';
+import {
+  exists,
+  listRestorable,
+  recordFromTrashedItem,
+  restoreItem,
+  type ConflictResolution,
+  type RestorableItem,
+  type TrashRecord,
+} from './restore';
+import { gitStates, type GitState } from './git';
+import { formatBytes, measureBlastRadius, protectedReason, type ProtectionConfig, type ProtectionRules } from './protect';
+import {
+  batchSize,
+  enforceRetention,
+  listBatches,
+  purgeBatch,
+  removeFromBatch,
+  type QuarantineBatch,
+  type RetentionPolicy,
+} from './quarantine';
+import { homeTrashDir, macTrashPath, trashPath } from './trash';
+import {
+  measureSize,
+  openQuarantine,
+  recordTrashed,
+  tildify,
+  type BinSpec,
+  type DeferredStep,
+  type TrashOrigin,
+} from './bin';
+import { findListingWords, resolveTarget, resolveTargets, type TargetSource, type TrashTarget } from './targets';
+
+const execFileAsync = promisify(child_process.execFile);
+
+// helper.js is built next to the bundled extension (npm run build:safe-rm);
+// null when it's missing or the extension runs from source
+const HELPER_PATH = ((): string | null => {
+  if (typeof __filename === 'undefined') return null;
+  const helper = path.join(path.dirname(fs.realpathSync(__filename)), 'helper.js');
+  return fs.existsSync(helper) ? helper : null;
+})();
+
+// Files a command would remove (moved to the trash in its place, non-macOS)
+// or overwrite (copied to the trash first), resolved before it runs to
+// check them. helper.ts resolves them again from the same `words` when the
+// shell gets to them, and moves or copies what they name then.
+type TrashPlan =
+  | { kind: 'remove'; tool: string; command: ShellCommand; flags: RmFlags; words: string[]; source: TargetSource; targets: TrashTarget[] }
+  | { kind: 'copy'; removal: boolean; command: ShellCommand; words: string[]; source: TargetSource; targets: TrashTarget[] }
+  | { kind: 'nested'; segment: NestedScript; plan: TrashPlan[] };
+
+// A command whose files can't be known before it runs
+type Unresolved = { text: string; removal: boolean };
+
+// A call rewritten to run the macOS `trash` command, checked when its result comes in
+type PendingTrash = { command: string; rewrittenCommand: string; cwd: string; files: LogFile[] };
+
+// Steps of a call handed to helper.ts: the spec files and the results they
+// write go in `dir`, created for the first one
+type Deferral = { bin: BinSpec; origin: TrashOrigin; protection: ProtectionConfig; dir: string | null; count: number };
+
+// A step handed to helper.ts, with the files it had when the call was checked
+type PendingStep = { resultPath: string; files: LogFile[] };
+
+// A call with deferred steps, logged once its result (and the helper's) is
+// in; `files` are the ones the call handled otherwise
+type DeferredLog = { command: string; rewrittenCommand: string; files: LogFile[]; steps: PendingStep[]; dir: string };
 
 interface SafeRmConfig {
   enabledByDefault?: boolean;
-  debugLogPath?: string;
+  logPath?: string;
+  /** Rotate the log once it is larger than this */
+  logMaxKilobytes?: number;
+  /** Rotated log files to keep */
+  logMaxFiles?: number;
+  trashLogPath?: string;
+  detectors?: Partial<Detectors>;
+  protect?: Partial<ProtectionRules>;
+  protectedPaths?: string[];
+  allowedOutsideCwd?: string[];
+  maxFiles?: number;
+  maxMegabytes?: number;
+  mode?: 'trash' | 'quarantine';
+  quarantine?: Partial<QuarantineConfig>;
+  /** Move files to ~/.Trash in-process when the macOS `trash` command fails */
+  trashFallback?: boolean;
+  /** Ask before every removal */
+  confirm?: boolean;
+  /** With confirm on and no UI: block removals, or trash them without asking */
+  nonInteractivePolicy?: 'block' | 'trash';
+  /** What to do when a removal includes modified or untracked files */
+  gitSafety?: 'off' | 'warn' | 'confirm';
+}
+
+interface QuarantineConfig extends RetentionPolicy {
+  /** Quarantine directory, relative to the project */
+  dir: string;
 }
 
+interface EffectiveConfig {
+  enabled: boolean;
+  logPath: string;
+  logRotation: LogRotation;
+  trashLogPath: string;
+  detectors: Detectors;
+  protection: ProtectionConfig;
+  maxFiles: number;
+  maxMegabytes: number;
+  mode: 'trash' | 'quarantine';
+  quarantine: QuarantineConfig;
+  /** Absolute quarantine directory for the session's project */
+  quarantineRoot: string;
+  trashFallback: boolean;
+  confirm: boolean;
+  nonInteractivePolicy: 'block' | 'trash';
+  gitSafety: 'off' | 'warn' | 'confirm';
+}
+
+const DEFAULT_DETECTORS: Detectors = {
+  find: true,
+  gitRm: true,
+  unlink: true,
+  rmdir: true,
+  shred: true,
+  truncate: true,
+  redirect: true,
+  mvToDevNull: true,
+};
+
 const DEFAULT_CONFIG: Required<SafeRmConfig> = {
   enabledByDefault: true,
-  debugLogPath: path.join(os.homedir(), '.pi', 'safe-rm-debug.log'),
+  logPath: path.join(os.homedir(), '.pi', 'safe-rm-log.jsonl'),
+  logMaxKilobytes: 1024,
+  logMaxFiles: 3,
+  trashLogPath: path.join(os.homedir(), '.pi', 'safe-rm-trash.jsonl'),
+  detectors: DEFAULT_DETECTORS,
+  protect: { home: true, repoRoot: true, gitDir: true, outsideCwd: true },
+  protectedPaths: [],
+  allowedOutsideCwd: [...new Set(['/tmp', os.tmpdir()])],
+  maxFiles: 1000,
+  maxMegabytes: 500,
+  mode: 'trash',
+  quarantine: { dir: path.join('.pi', 'quarantine'), maxAgeDays: 30, maxMegabytes: 1024 },
+  trashFallback: true,
+  confirm: false,
+  nonInteractivePolicy: 'block',
+  gitSafety: 'warn',
 };
 
 export default function (pi: ExtensionAPI) {
   let sessionEnabledOverride: boolean | null = null;
+  // "Always trash in this session" was picked in confirm mode
+  let sessionAlwaysTrash = false;
+  // Rewritten macOS calls by tool call id, until their result comes in
+  const pendingTrash = new Map<string, PendingTrash>();
+  const deferredLogs = new Map<string, DeferredLog>();
 
   // Helper to get effective config
-  function getEffectiveConfig(ctx: any): { enabled: boolean; debugLogPath: string } {
-    const settings = ctx.settingsManager?.getSettings() ?? {};
+  function getEffectiveConfig(ctx: ExtensionContext): EffectiveConfig {
+    const settings = (ctx as any).settingsManager?.getSettings() ?? {};
     const config: Required<SafeRmConfig> = {
       ...DEFAULT_CONFIG,
       ...(settings.safeRm ?? {}),
@@ -36,110 +237,369 @@ export default function (pi: ExtensionAPI) {
       ? sessionEnabledOverride
       : config.enabledByDefault;
 
-    return { enabled, debugLogPath: config.debugLogPath };
+    const quarantine = { ...DEFAULT_CONFIG.quarantine, ...config.quarantine } as QuarantineConfig;
+    const quarantineRoot = path.resolve(ctx.cwd, quarantine.dir);
+
+    return {
+      enabled,
+      logPath: config.logPath,
+      logRotation: { maxBytes: config.logMaxKilobytes * 1024, maxFiles: config.logMaxFiles },
+      trashLogPath: config.trashLogPath,
+      detectors: { ...DEFAULT_DETECTORS, ...config.detectors },
+      protection: {
+        rules: { ...DEFAULT_CONFIG.protect, ...config.protect } as ProtectionRules,
+        // Removing the quarantine would delete what is in it
+        protectedPaths: [...config.protectedPaths, quarantineRoot],
+        allowedOutsideCwd: config.allowedOutsideCwd,
+      },
+      maxFiles: config.maxFiles,
+      maxMegabytes: config.maxMegabytes,
+      mode: config.mode,
+      quarantine,
+      quarantineRoot,
+      trashFallback: config.trashFallback,
+      confirm: config.confirm,
+      nonInteractivePolicy: config.nonInteractivePolicy,
+      gitSafety: config.gitSafety,
+    };
   }
 
-  // Detect if command is an rm command (careful about false positives)
-  function isRmCommand(command: string): boolean {
-    const trimmed = command.trim();
+  // Rewrite every removal in the command for macOS: `rm` (and unlink, rmdir,
+  // shred, mv to /dev/null) becomes `trash` with the options dropped, and
+  // find's `-delete`/`-exec rm` run `trash` instead. Everything else
+  // (operands, globs, variables, the rest of the pipeline) stays as written,
+  // so the shell still expands it. Trashed items are recorded as removed by
+  // `recordCommand`.
+  function rewriteForMacTrash(
+    command: string,
+    cwd: string,
+    detectors: Detectors,
+    recordCommand = command
+  ): { command: string; files: string[]; finds: number; records: TrashRecord[] } {
+    const replacements: { start: number; end: number; text: string }[] = [];
+    const files: string[] = [];
+    const records: TrashRecord[] = [];
+    let finds = 0;
+    const timestamp = new Date().toISOString();
+    const remove = (word: ShellWord) => replacements.push({ start: word.start, end: skipBlanks(command, word.end), text: '' });
 
-    // Match standalone "rm" or explicit paths to rm binary
-    // Patterns that ARE rm commands:
-    //   - "rm" at start
-    //   - "/bin/rm", "/usr/bin/rm", etc.
-    const rmPatterns = [
-      /^(?:\/[\w\/]+\/)?rm\b/,           // rm, /bin/rm, /usr/bin/rm
-    ];
+    for (const segment of findRmSegments(command, cwd, detectors)) {
+      if (segment.kind === 'nested') {
+        const nested = rewriteForMacTrash(segment.scriptWord.value, segment.cwd ?? cwd, detectors);
+        if (nested.command === segment.scriptWord.value) continue;
+        replacements.push({ start: segment.scriptWord.start, end: segment.scriptWord.end, text: shellQuote(nested.command) });
+        files.push(...nested.files);
+        records.push(...nested.records);
+        finds += nested.finds;
+        continue;
+      }
 
-    // Patterns that might look like rm but are NOT:
-    //   - Filenames containing "rm" like "worm" -> "wrm" (unlikely but possible)
-    //   - Commands where "rm" is just part of the word
+      // Overwrites are copied to the trash before the command runs
+      if (segment.kind === 'overwrite') continue;
 
-    for (const pattern of rmPatterns) {
-      if (pattern.test(trimmed)) {
-        // Additional check: make sure "rm" is a word boundary or at path boundary
-        // This helps avoid false positives in edge cases
-        return true;
+      if (segment.kind === 'find') {
+        // The matches aren't known until find runs, so they aren't recorded
+        for (const action of segment.deletes) {
+          replacements.push({ start: action.start, end: action.end, text: '-exec trash {} +' });
+        }
+        for (const exec of segment.rmExecs) {
+          replacements.push({ start: exec.rmWord.start, end: exec.rmWord.end, text: 'trash' });
+          exec.options.forEach(remove);
+        }
+        finds++;
+        continue;
+      }
+
+      // Without operands rm just prints its usage error
+      if (segment.operands.length === 0 && !segment.fromXargs) continue;
+
+      replacements.push({ start: segment.rmWord.start, end: segment.rmWord.end, text: 'trash' });
+      segment.options.forEach(remove);
+      segment.extra.forEach(remove);
+      for (const operand of segment.operands) {
+        const raw = command.slice(operand.start, operand.end);
+        files.push(raw);
+        // `trash` would read a leading dash as an option
+        if (operand.value.startsWith('-')) {
+          replacements.push({ start: operand.start, end: operand.end, text: shellQuote(`./${operand.value}`) });
+        }
+        // `trash` picks the name in ~/.Trash; restore finds it by name and time
+        const expanded = segment.cwd ? expandWord(raw, segment.cwd) : null;
+        for (const arg of expanded ?? []) {
+          records.push({ timestamp, cwd: segment.cwd!, command: recordCommand, originalPath: resolveTarget(arg, segment.cwd!) });
+        }
       }
     }
 
-    return false;
+    return { command: applyReplacements(command, replacements), files, finds, records };
   }
 
-  // Parse rm command to extract files
-  //
-  // NOTE: This is a simplified parser that doesn't handle all shell quoting edge cases
-  // (e.g., escaped characters, complex flags with values). However, since the original
-  // command was already shell-parsed by the user's shell, we're just extracting the
-  // file arguments for the trash command. Files are properly quoted when passed to trash.
-  function parseRmCommand(command: string): { flags: string; files: string[]; commandRest: string } {
-    const trimmed = command.trim();
+  // Work out the files each destructive command would remove or overwrite.
+  // Lists the commands whose files can't be known before the command runs
+  // (and whether they remove or overwrite). find matches in `skipDir` (the
+  // quarantine) are left out.
+  function planTrash(
+    command: string,
+    cwd: string,
+    detectors: Detectors,
+    skipDir: string
+  ): { plan: TrashPlan[]; unresolved: Unresolved[] } {
+    const plan: TrashPlan[] = [];
+    const unresolved: Unresolved[] = [];
+
+    for (const segment of findRmSegments(command, cwd, detectors)) {
+      if (segment.kind === 'nested') {
+        const script = planTrash(segment.scriptWord.value, segment.cwd ?? cwd, detectors, skipDir);
+        if (script.plan.length > 0) plan.push({ kind: 'nested', segment, plan: script.plan });
+        unresolved.push(...script.unresolved);
+        continue;
+      }
+
+      const text = command.slice(segment.command.start, segment.command.end);
+
+      if (segment.kind === 'overwrite') {
+        const words = segment.operands.map(o => command.slice(o.start, o.end));
+        const source: TargetSource = { kind: 'overwrite', pathspecs: segment.pathspecs, force: segment.force };
+        const targets = segment.cwd !== null && !segment.unknown ? resolveTargets(source, words, segment.cwd) : null;
+        const removal = segment.tool === 'git rm';
+        if (!targets) unresolved.push({ text, removal });
+        else if (targets.length > 0) plan.push({ kind: 'copy', removal, command: segment.command, words, source, targets });
+        continue;
+      }
+
+      if (segment.kind === 'find') {
+        const rmFlags = segment.rmExecs.map(exec => parseRmFlags(exec.options.map(o => o.value)));
+        const flags: RmFlags = {
+          // Matches exist when listed; one vanishing before its turn is no error
+          force: true,
+          recursive: rmFlags.some(f => f.recursive),
+          // -delete removes directories once they are empty
+          emptyDirs: segment.deletes.length > 0 || rmFlags.some(f => f.emptyDirs),
+          dirsOnly: false,
+        };
+        const words = findListingWords(command, segment);
+        const source: TargetSource = { kind: 'find', skipDir, recursive: flags.recursive };
+        const targets = segment.cwd !== null && !segment.otherActions ? resolveTargets(source, words, segment.cwd) : null;
+        if (!targets) {
+          unresolved.push({ text, removal: true });
+          continue;
+        }
+        plan.push({ kind: 'remove', tool: 'find', command: segment.command, flags, words, source, targets });
+        continue;
+      }
+
+      // Without operands rm just prints its usage error
+      if (segment.operands.length === 0 && !segment.fromXargs) continue;
+
+      const words = segment.operands.map(o => command.slice(o.start, o.end));
+      const source: TargetSource = { kind: 'operands' };
+      const targets = segment.cwd !== null && !segment.fromXargs ? resolveTargets(source, words, segment.cwd) : null;
+      if (!targets) {
+        unresolved.push({ text, removal: true });
+        continue;
+      }
+      plan.push({ kind: 'remove', tool: segment.tool, command: segment.command, flags: removalFlags(segment), words, source, targets });
+    }
 
-    // Remove the "rm" or path-to-rm part to get flags and files
-    // Replace any "rm" or "/path/to/rm" at the start
-    const withoutRm = trimmed.replace(/^(?:\/[\w\/]+\/)?rm\b\s*/, '');
+    return { plan, unresolved };
+  }
 
-    // Now split into flags and files
-    const parts = withoutRm.split(/\s+/).filter(p => p.length > 0);
+  // Every file a plan touches, and whether it is removed or only overwritten
+  function planTargets(plan: TrashPlan[]): (TrashTarget & { removal: boolean })[] {
+    return plan.flatMap(step => {
+      if (step.kind === 'nested') return planTargets(step.plan);
+      const removal = step.kind === 'remove' || step.removal;
+      return step.targets.map(target => ({ ...target, removal }));
+    });
+  }
 
-    const flags: string[] = [];
+  // Hand a plan to helper.ts, so that nothing changes on disk before the
+  // command runs: each removal is replaced with the helper, which moves its
+  // files when the shell gets there, and each command that overwrites files
+  // runs right after the helper has copied them. With the macOS trash
+  // (`removals` false) the rewritten command removes files itself.
+  async function deferTrashPlan(
+    command: string,
+    plan: TrashPlan[],
+    deferral: Deferral,
+    removals: boolean
+  ): Promise<{ command: string; files: string[]; copied: string[]; steps: PendingStep[] }> {
+    const replacements: { start: number; end: number; text: string }[] = [];
     const files: string[] = [];
+    const copied: string[] = [];
+    const steps: PendingStep[] = [];
+    // Helper calls per simple command: copies run before it, a removal takes its place
+    const calls = new Map<ShellCommand, { copies: string[]; removal: string | null }>();
+
+    for (const step of plan) {
+      if (step.kind === 'nested') {
+        const nested = await deferTrashPlan(step.segment.scriptWord.value, step.plan, deferral, removals);
+        if (nested.command !== step.segment.scriptWord.value) {
+          replacements.push({ start: step.segment.scriptWord.start, end: step.segment.scriptWord.end, text: shellQuote(nested.command) });
+        }
+        files.push(...nested.files);
+        copied.push(...nested.copied);
+        steps.push(...nested.steps);
+        continue;
+      }
+
+      if (step.kind === 'remove' && !removals) continue;
 
-    for (const part of parts) {
-      if (part.startsWith('-')) {
-        // It's a flag
-        flags.push(part);
+      const { helperCommand, resultPath } = await deferStep(step, deferral);
+      steps.push({ resultPath, files: step.targets.map((t): LogFile => ({ path: t.absolute, size: measureSize(t.absolute), status: 'pending' })) });
+      const call = calls.get(step.command) ?? { copies: [], removal: null };
+      calls.set(step.command, call);
+      if (step.kind === 'copy') {
+        copied.push(...step.targets.map(t => t.arg));
+        call.copies.push(helperCommand);
       } else {
-        // It's a file/directory
-        files.push(part);
+        files.push(...step.targets.map(t => t.arg));
+        call.removal = helperCommand;
       }
     }
 
-    return {
-      flags: flags.join(' '),
-      files,
-      commandRest: withoutRm,
+    for (const [shellCommand, { copies, removal }] of calls) {
+      const words = removal === null ? [] : [{ ...rewriteRange(shellCommand), text: removal }];
+      if (copies.length === 0) {
+        replacements.push(...words);
+        continue;
+      }
+      // The copies run in a group with the command, before the shell
+      // applies its redirections
+      const range = wrapRange(shellCommand);
+      const text = applyReplacements(
+        command.slice(range.start, range.end),
+        words.map(r => ({ ...r, start: r.start - range.start, end: r.end - range.start }))
+      );
+      replacements.push({ ...range, text: `{ ${[...copies, text].join('; ')}; }` });
+    }
+
+    return { command: applyReplacements(command, replacements), files, copied, steps };
+  }
+
+  // Write the spec of a step for helper.ts; returns the command that runs it
+  // and the file it writes its results to
+  async function deferStep(
+    step: Extract<TrashPlan, { kind: 'remove' | 'copy' }>,
+    deferral: Deferral
+  ): Promise<{ helperCommand: string; resultPath: string }> {
+    deferral.dir ??= await fs.promises.mkdtemp(path.join(os.tmpdir(), 'safe-rm-'));
+    const n = ++deferral.count;
+    const specPath = path.join(deferral.dir, `step-${n}.json`);
+    const resultPath = path.join(deferral.dir, `step-${n}.results.jsonl`);
+    const spec: DeferredStep = {
+      ...(step.kind === 'remove' ? { action: 'remove' as const, tool: step.tool, flags: step.flags } : { action: 'copy' as const }),
+      words: step.words,
+      source: step.source,
+      bin: deferral.bin,
+      origin: deferral.origin,
+      protection: deferral.protection,
+      resultPath,
     };
+    await fs.promises.writeFile(specPath, JSON.stringify(spec));
+    // pi may run on a runtime that isn't node (a compiled binary)
+    const node = path.basename(process.execPath).startsWith('node') ? process.execPath : 'node';
+    return { helperCommand: [node, HELPER_PATH!, specPath].map(shellQuote).join(' '), resultPath };
   }
 
-  // Build trash command
-  function buildTrashCommand(files: string[]): string {
-    // Check OS for appropriate command
-    const isMacOS = os.platform() === 'darwin';
-
-    // On macOS, use the built-in `trash` command.
-    if (isMacOS) {
-      // Usage: trash <file1> <file2> ...
-      // Quote filenames to handle spaces and special characters
-      const quotedFiles = files.map(f => `'${f.replace(/'/g, "'\\''")}'`);
-      return `trash ${quotedFiles.join(' ')}`;
-    }
+  // True if a plan has steps for helper.ts: copies, and with `removals` removals
+  function needsHelper(plan: TrashPlan[], removals: boolean): boolean {
+    return plan.some(step => step.kind === 'nested' ? needsHelper(step.plan, removals) : step.kind === 'copy' || removals);
+  }
 
-    // On non-macOS systems, fall back to regular rm so the command still works.
-    // Note: This bypasses the safety feature on non-macOS systems.
-    return `rm ${files.map(f => `'${f.replace(/'/g, "'\\''")}'`).join(' ')}`;
+  // Offset of the next non-blank character
+  function skipBlanks(text: string, pos: number): number {
+    while (pos < text.length && (text[pos] === ' ' || text[pos] === '\t')) pos++;
+    return pos;
   }
 
-  // Log to debug file (simplified format)
-  function logToDebugFile(logPath: string, originalCmd: string, trashCmd: string, files: string[]) {
-    const timestamp = new Date().toISOString();
-    // Simplified format: "rm -rf build/ → trash"
-    const entry = `[${timestamp}] | ${originalCmd} → trash\n`;
+  // Move a path to the platform's trash (used when a restore replaces an existing file)
+  async function moveToTrash(ctx: ExtensionContext, target: string, trashLogPath: string, command: string) {
+    if (os.platform() === 'darwin') {
+      await execFileAsync('trash', [target]);
+      warn(ctx, await recordTrashed(trashLogPath, [{ timestamp: new Date().toISOString(), cwd: path.dirname(target), command, originalPath: target }]));
+      return;
+    }
+    const item = await trashPath(target);
+    warn(ctx, await recordTrashed(trashLogPath, [recordFromTrashedItem(item, path.dirname(target), command)]));
+  }
 
-    try {
-      // Ensure log directory exists
-      const logDir = path.dirname(logPath);
-      if (!fs.existsSync(logDir)) {
-        fs.mkdirSync(logDir, { recursive: true });
+  // Prompt title for confirm mode: each item with its size and git state
+  function describeRemoval(command: string, targets: TrashTarget[], states: Map<string, GitState | null>): string {
+    const labels: Record<GitState, string> = {
+      modified: 'modified ⚠️',
+      untracked: 'untracked',
+      clean: 'tracked, unchanged',
+      ignored: 'ignored',
+    };
+    const sizes = targets.map(t => measureSize(t.absolute));
+    const total = sizes.reduce<number>((sum, size) => sum + (size ?? 0), 0);
+    const width = Math.min(40, Math.max(...targets.map(t => t.arg.length)));
+
+    const lines = [`🗑️ safe-rm: \`${command}\` would remove ${targets.length} item(s), ${formatBytes(total)}:`];
+    targets.slice(0, 15).forEach((t, i) => {
+      if (sizes[i] === null) {
+        lines.push(`  ${t.arg.padEnd(width)}  ${'missing'.padStart(9)}`);
+        return;
       }
+      const state = states.get(t.absolute);
+      lines.push(`  ${t.arg.padEnd(width)}  ${formatBytes(sizes[i]!).padStart(9)}  ${state ? labels[state] : 'not in git'}`);
+    });
+    if (targets.length > 15) lines.push(`  … and ${targets.length - 15} more`);
+    return lines.join('\n');
+  }
 
-      // Append to log file
-      fs.appendFileSync(logPath, entry, 'utf8');
+  // Log a call with deferred steps: each step that ran logs the files
+  // helper.ts found and what happened to them; one the command never got to
+  // logs the files it had when the call was checked as "skipped"
+  async function logDeferred(ctx: ExtensionContext, deferred: DeferredLog) {
+    const files = [...deferred.files];
+    for (const step of deferred.steps) {
+      let lines: string[];
+      try {
+        lines = (await fs.promises.readFile(step.resultPath, 'utf8')).split('\n');
+      } catch {
+        files.push(...step.files.map(file => ({ ...file, status: 'skipped' as const, error: 'not reached: the command ended or branched before it' })));
+        continue;
+      }
+      files.push(...lines.filter(Boolean).map(line => JSON.parse(line) as LogFile));
+    }
+
+    await writeLog(ctx, getEffectiveConfig(ctx), {
+      command: deferred.command,
+      rewrittenCommand: deferred.rewrittenCommand,
+      outcome: 'rewritten',
+      files,
+    });
+    await fs.promises.rm(deferred.dir, { recursive: true, force: true });
+  }
+
+  // Append a command to the log; failing to log never affects the command
+  async function writeLog(
+    ctx: ExtensionContext,
+    config: EffectiveConfig,
+    entry: { command: string; rewrittenCommand: string | null; outcome: LogOutcome; files: LogFile[]; reason?: string }
+  ) {
+    const logEntry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      sessionId: ctx.sessionManager?.getSessionId?.() ?? null,
+      cwd: ctx.cwd,
+      mode: config.mode,
+      ...entry,
+    };
+    try {
+      await appendLogEntry(config.logPath, logEntry, config.logRotation);
     } catch (e) {
-      console.error(`[safe-rm] Failed to write debug log: ${e}`);
+      warn(ctx, `safe-rm: could not write the log ${tildify(config.logPath)}: ${e instanceof Error ? e.message : e}`);
     }
   }
 
+  // Show a problem that doesn't affect the command, like a log that can't be
+  // written; without a UI there is nowhere to show it
+  function warn(ctx: ExtensionContext, warning: string | null) {
+    if (warning && ctx.hasUI) ctx.ui.notify(`⚠️  ${warning}`, 'warning');
+  }
+
   // Intercept tool calls
   pi.on("tool_call", async (event, ctx) => {
     // Only intercept bash commands
@@ -147,62 +607,311 @@ export default function (pi: ExtensionAPI) {
 
     const command = event.input.command as string;
 
-    // Check if this is an rm command
-    if (!isRmCommand(command)) return undefined;
+    // Quick check before parsing
+    if (!/\b(?:rm|unlink|rmdir|shred|truncate|find)\b|\/dev\/null|>/.test(command)) return undefined;
 
-    const { enabled, debugLogPath } = getEffectiveConfig(ctx);
+    const config = getEffectiveConfig(ctx);
+    const { enabled, trashLogPath, detectors, protection, maxFiles, maxMegabytes, mode, quarantineRoot } = config;
 
     if (!enabled) return undefined;
 
-    // Parse the rm command
-    const { files } = parseRmCommand(command);
+    // Find removals anywhere in the command: compound commands, subshells,
+    // sudo/env/xargs wrappers and `sh -c` scripts
+    if (findRmSegments(command, ctx.cwd, detectors).length === 0) return undefined;
 
-    if (files.length === 0) {
-      // No files specified, let original command run
-      // This will just show an error from rm
-      return undefined;
+    // Removals go to the quarantine or FreeDesktop trash through helper.ts;
+    // only the macOS trash rewrites the command to run `trash` itself
+    const inProcess = mode === 'quarantine' || os.platform() !== 'darwin';
+
+    // Files are resolved before the command runs to check them, so they
+    // must be known now. Otherwise the user decides; without a UI the
+    // command is blocked. With the macOS trash, `trash` gets the removed
+    // files when the command runs.
+    const planned = planTrash(command, ctx.cwd, detectors, quarantineRoot);
+    const plan = planned.plan;
+    const unresolved = planned.unresolved.filter(u => inProcess || !u.removal).map(u => u.text);
+    const targets = planTargets(plan);
+
+    // Blocked commands are logged with the files they would have touched
+    const block = async (reason: string) => {
+      const files = targets.map((t): LogFile => ({ path: t.absolute, size: null, status: 'skipped' }));
+      await writeLog(ctx, config, { command, rewrittenCommand: null, outcome: 'blocked', files, reason });
+      return { block: true, reason };
+    };
+
+    // Protected paths are never removed, not even to the trash
+    for (const target of targets) {
+      const why = protectedReason(target.absolute, ctx.cwd, protection, target.removal);
+      if (why) {
+        return block(
+          `safe-rm: refusing to remove '${target.arg}' (${why}). Nothing was removed. ` +
+            `If it really has to go, ask the user to remove it.`
+        );
+      }
+    }
+
+    if (!HELPER_PATH && needsHelper(plan, inProcess)) {
+      return block(
+        `safe-rm: \`${command}\` removes or overwrites files, which needs safe-rm's helper.js ` +
+          `(built by npm run build:safe-rm) and it is missing. Nothing was removed.`
+      );
+    }
+
+    if (unresolved.length > 0) {
+      const reason = `safe-rm: can't tell which files \`${unresolved[0]}\` would remove or overwrite before the command runs ` +
+        `(variables, command substitution, xargs input or find actions). Nothing was removed. ` +
+        `Use literal paths or globs instead (e.g. rm -r build/*.o).`;
+      if (!ctx.hasUI) return block(reason);
+
+      const confirmed = await ctx.ui.confirm(
+        "🗑️ safe-rm can't use the trash for this",
+        [
+          "Can't tell which files these would remove or overwrite:",
+          ...unresolved.map(text => `  ${text}`),
+          "",
+          "Whatever they remove is deleted permanently. Run the command anyway?",
+        ].join('\n')
+      );
+      if (!confirmed) {
+        return block(`safe-rm: the user declined running \`${unresolved[0]}\` without the trash. Nothing was removed.`);
+      }
+    }
+
+    // Confirm mode: the user decides on every removal, unless they picked
+    // "always trash" this session. Without a UI, nonInteractivePolicy decides.
+    const removed = targets.filter(t => t.removal);
+    const askEach = config.confirm && !sessionAlwaysTrash && removed.length > 0;
+    if (askEach && !ctx.hasUI && config.nonInteractivePolicy !== 'trash') {
+      return block(
+        `safe-rm: removing ${removed.map(t => `'${t.arg}'`).join(', ')} needs the user's approval (confirm mode, no UI available). ` +
+          `Nothing was removed. Ask the user to remove the files.`
+      );
+    }
+
+    // Uncommitted work (modified or untracked files) only exists on disk;
+    // clean tracked files come back from git and ignored ones are build output
+    const states = config.gitSafety !== 'off' || askEach ? gitStates(removed.map(t => t.absolute)) : new Map<string, GitState | null>();
+    const uncommitted: TrashTarget[] = [];
+    for (const target of removed) {
+      const state = states.get(target.absolute);
+      // Missing targets and directories without files hold nothing to lose
+      const hasFiles = measureBlastRadius([target.absolute], 0, Infinity).files > 0;
+      if (config.gitSafety !== 'off' && (state === 'modified' || state === 'untracked') && hasFiles) {
+        uncommitted.push(target);
+      }
+    }
+    const work = uncommitted.map(t => `${t.arg} (${states.get(t.absolute)})`);
+
+    // The confirm mode prompt shows the git state, so it stands in for this one
+    if (config.gitSafety === 'confirm' && uncommitted.length > 0 && !(askEach && ctx.hasUI)) {
+      const reason = `safe-rm: \`${command}\` would remove uncommitted work git can't bring back: ${work.join(', ')}. ` +
+        `Nothing was removed. Commit or stash it first, or ask the user.`;
+      if (!ctx.hasUI) return block(reason);
+
+      const shown = work.slice(0, 10).map(w => `  ${w}`);
+      if (work.length > shown.length) shown.push(`  … and ${work.length - shown.length} more`);
+      const confirmed = await ctx.ui.confirm(
+        "🗑️ safe-rm: uncommitted work",
+        [`This would remove files with changes that aren't in git:`, ...shown, "", `They go to ${mode === 'quarantine' ? 'the quarantine' : 'the trash'}. Go ahead?`].join('\n')
+      );
+      if (!confirmed) {
+        return block(`safe-rm: the user declined removing uncommitted work (${work.join(', ')}). Nothing was removed.`);
+      }
+    }
+
+    // Large removals need the user's go-ahead (the confirm mode prompt shows the sizes too)
+    const maxBytes = maxMegabytes * 1024 * 1024;
+    const radius = measureBlastRadius(removed.map(t => t.absolute), maxFiles, maxBytes);
+    if ((radius.files > maxFiles || radius.bytes > maxBytes) && !(askEach && ctx.hasUI)) {
+      const size = !radius.truncated
+        ? `${radius.files.toLocaleString()} files (${formatBytes(radius.bytes)})`
+        : radius.files > maxFiles ? `more than ${maxFiles.toLocaleString()} files` : `more than ${formatBytes(maxBytes)}`;
+      const reason = `safe-rm: \`${command}\` would remove ${size}, over the limit of ${maxFiles} files or ${maxMegabytes} MB. ` +
+        `Nothing was removed. Remove fewer files at a time, or ask the user.`;
+      if (!ctx.hasUI) return block(reason);
+
+      const shown = removed.slice(0, 10).map(t => `  ${t.arg}`);
+      if (removed.length > shown.length) shown.push(`  … and ${removed.length - shown.length} more`);
+      const confirmed = await ctx.ui.confirm(
+        "🗑️ safe-rm: large removal",
+        [`This would move ${size} to the trash:`, ...shown, "", "Go ahead?"].join('\n')
+      );
+      if (!confirmed) {
+        return block(`safe-rm: the user declined removing ${size}. Nothing was removed.`);
+      }
     }
 
-    // Build the trash command (macOS uses `trash` command)
-    const trashCmd = buildTrashCommand(files);
+    if (askEach && ctx.hasUI) {
+      const trash = `🗑️  Trash (move to ${mode === 'quarantine' ? 'the quarantine' : 'the trash'})`;
+      const remove = "🔥 Permanently delete (run the command as written)";
+      const skip = "⏭️  Skip (don't run the command)";
+      const always = "✅ Always trash in this session";
+      const choice = await ctx.ui.select(describeRemoval(command, removed, states), [trash, remove, skip, always]);
 
-    // Log to debug file
-    logToDebugFile(debugLogPath, command, trashCmd, files);
+      if (!choice || choice === skip) {
+        return block(`safe-rm: the user chose not to run \`${command}\`. Nothing was removed.`);
+      }
+      if (choice === remove) {
+        const files = removed.map((t): LogFile => ({ path: t.absolute, size: measureSize(t.absolute), status: 'deleted' }));
+        await writeLog(ctx, config, { command, rewrittenCommand: null, outcome: 'allowed', files });
+        return undefined;
+      }
+      if (choice === always) {
+        sessionAlwaysTrash = true;
+        ctx.ui.notify("✅ safe-rm: trashing without asking for the rest of this session", 'info');
+      }
+    }
+
+    // Nothing is moved or copied yet: helper.ts does it when the shell gets
+    // to each removal, or to each command that overwrites files
+    const binName = mode === 'quarantine' ? 'the quarantine' : 'the trash';
+    const binSpec: BinSpec = mode === 'quarantine' ? { kind: 'quarantine', root: quarantineRoot } : { kind: 'trash', trashLogPath };
+    const deferral: Deferral = { bin: binSpec, origin: { cwd: ctx.cwd, command }, protection, dir: null, count: 0 };
+    const deferred = await deferTrashPlan(command, plan, deferral, inProcess);
+    const reasons: string[] = [];
+    const logged: LogFile[] = [];
+    let newCommand = deferred.command;
+    let files = deferred.files;
+
+    if (!inProcess) {
+      // Build the trash command (macOS uses `trash` command)
+      const mac = rewriteForMacTrash(deferred.command, ctx.cwd, detectors, command);
+      newCommand = mac.command;
+      files = mac.files;
+      warn(ctx, await recordTrashed(trashLogPath, mac.records));
+      // `trash` runs with the command; files it gets that weren't known up
+      // front aren't listed, and files git rm removes are only copied
+      const copies = new Set(deferred.steps.flatMap(step => step.files.map(f => f.path)));
+      for (const target of removed.filter(t => !copies.has(t.absolute))) {
+        logged.push({ path: target.absolute, size: measureSize(target.absolute), status: 'pending' });
+      }
+      if (mac.command !== deferred.command) {
+        const finds = mac.finds > 0 ? ` and ${mac.finds} find command(s)` : '';
+        reasons.push(`Replaced 'rm' with 'trash' for ${files.length} file(s)${finds}`);
+        pendingTrash.set(event.toolCallId, { command, rewrittenCommand: newCommand, cwd: ctx.cwd, files: logged });
+      }
+    } else if (files.length > 0) {
+      reasons.push(`${files.length} item(s) go to ${binName} instead of being deleted, when the command gets to removing them`);
+    }
+    if (deferred.copied.length > 0) {
+      reasons.push(`${deferred.copied.join(', ')} will be copied to ${binName} before being overwritten`);
+    }
+    if (config.gitSafety === 'warn' && uncommitted.length > 0) {
+      reasons.push(`This includes uncommitted work that git can't bring back, which will then only be in ${binName}: ${work.join(', ')}`);
+      ctx.ui?.notify?.(`⚠️  safe-rm: removing uncommitted work (it goes to ${binName}): ${work.join(', ')}`, 'warning');
+    }
+
+    if (reasons.length === 0) {
+      // The user let a command the trash can't handle run as is
+      if (unresolved.length > 0) await writeLog(ctx, config, { command, rewrittenCommand: null, outcome: 'allowed', files: logged });
+      return undefined;
+    }
+
+    // With deferred steps the outcome is only known once the command ran
+    if (deferral.dir) {
+      deferredLogs.set(event.toolCallId, { command, rewrittenCommand: newCommand, files: logged, steps: deferred.steps, dir: deferral.dir });
+    } else {
+      await writeLog(ctx, config, { command, rewrittenCommand: newCommand, outcome: 'rewritten', files: logged });
+    }
 
-    // Replace the command with trash command
     return {
-      command: trashCmd,
-      reason: `safe-rm: Replaced 'rm' with 'trash' for ${files.length} file(s)`,
+      command: newCommand,
+      reason: `safe-rm: ${reasons.join('; ')}`,
     };
   });
 
+  // Check that `trash` did its job in a rewritten call. If it failed (not
+  // installed, or a non-zero exit with files left behind), tell the user
+  // and the agent, and move what it left to the trash in-process
+  pi.on("tool_result", async (event, ctx) => {
+    const deferred = deferredLogs.get(event.toolCallId);
+    if (deferred) {
+      deferredLogs.delete(event.toolCallId);
+      await logDeferred(ctx, deferred);
+    }
+
+    const pending = pendingTrash.get(event.toolCallId);
+    if (!pending) return undefined;
+    pendingTrash.delete(event.toolCallId);
+
+    const output = event.content.map(c => (c.type === 'text' ? c.text : '')).join('\n');
+    const notFound = /\btrash: (?:command )?not found|command not found: trash\b/.test(output);
+    const left = pending.files.filter(f => measureSize(f.path) !== null);
+    if (!notFound && !(event.isError && left.length > 0)) return undefined;
+
+    const config = getEffectiveConfig(ctx);
+    const cause = notFound ? "the `trash` command isn't installed" : '`trash` failed';
+    const files: LogFile[] = [];
+    const records: TrashRecord[] = [];
+    for (const file of left) {
+      if (!config.trashFallback) {
+        files.push({ ...file, status: 'failed', error: `${cause}; left in place` });
+        continue;
+      }
+      try {
+        const destination = await macTrashPath(file.path);
+        files.push({ ...file, status: 'trashed', destination });
+        records.push({ timestamp: new Date().toISOString(), cwd: pending.cwd, command: pending.command, originalPath: file.path });
+      } catch (e) {
+        files.push({ ...file, status: 'failed', error: `${cause}; could not move it to the trash: ${e instanceof Error ? e.message : e}` });
+      }
+    }
+    warn(ctx, await recordTrashed(config.trashLogPath, records));
+    await writeLog(ctx, config, {
+      command: pending.command,
+      rewrittenCommand: pending.rewrittenCommand,
+      outcome: 'trash-failed',
+      files,
+      reason: cause,
+    });
+
+    const trashed = files.filter(f => f.status === 'trashed');
+    const stayed = files.filter(f => f.status === 'failed');
+    const lines = left.length > 0
+      ? [`safe-rm: ${cause} in \`${pending.command}\`, leaving ${left.length} item(s) in place.`]
+      : [`safe-rm: ${cause} in \`${pending.command}\`. Which files it would have removed isn't known; nothing was deleted.`];
+    if (trashed.length > 0) {
+      lines.push(`Moved ${trashed.length === left.length ? 'them' : `${trashed.length} of them`} to the trash instead: ${trashed.map(f => tildify(f.path)).join(', ')}.`);
+      lines.push('The rest of the command may not have run; check its output before retrying.');
+    }
+    if (stayed.length > 0) lines.push(`Still in place: ${stayed.map(f => tildify(f.path)).join(', ')}.`);
+    if (notFound) lines.push('Install it with `brew install trash` (built in from macOS 14).');
+
+    ctx.ui?.notify?.(`🗑️  ${lines.join(' ')}`, 'warning');
+    return { content: [...event.content, { type: 'text' as const, text: lines.join('\n') }] };
+  });
+
   // Register slash commands
   pi.registerCommand("saferm", {
     description: "Show safe-rm status",
     handler: async (args, ctx) => {
-      const { enabled, debugLogPath } = getEffectiveConfig(ctx);
+      const { enabled, logPath, mode, quarantineRoot, confirm } = getEffectiveConfig(ctx);
       const status = enabled ? "🟢 ON" : "🔴 OFF";
+      const confirmInfo = !confirm ? [] : [`│  Confirm: ${sessionAlwaysTrash ? 'always trash (this session)' : 'ask before removing'} │`];
 
       // Check log file
       let logInfo = "";
       try {
-        if (fs.existsSync(debugLogPath)) {
-          const stats = fs.statSync(debugLogPath);
+        if (fs.existsSync(logPath)) {
+          const stats = fs.statSync(logPath);
           const sizeKB = (stats.size / 1024).toFixed(1);
-          logInfo = `\n📜 Debug log: ${debugLogPath} (${sizeKB} KB)`;
+          logInfo = `\n📜 Log: ${logPath} (${sizeKB} KB)`;
         }
       } catch (e) {
-        logInfo = "\n⚠️  Could not read debug log";
+        logInfo = "\n⚠️  Could not read log";
       }
 
       const isMacOS = os.platform() === 'darwin';
-      const osInfo = isMacOS ? "macOS: trash command" : "Non-macOS: falls back to rm";
+      const osInfo = mode === 'quarantine'
+        ? `Quarantine: ${tildify(quarantineRoot)}`
+        : isMacOS ? "macOS: trash command" : `Trash: ${tildify(homeTrashDir())}`;
 
       ctx.ui?.notify?.([
         "╭─ Safe-RM Status ─╮",
         `│                     │`,
         `│  Status: ${status} │`,
         `│  ${osInfo.padEnd(15)} │`,
+        ...confirmInfo,
         `${logInfo}`,
         `│                     │`,
         `╰─────────────────────╯`,
@@ -212,10 +921,12 @@ export default function (pi: ExtensionAPI) {
         "  /saferm-off  - Disable",
         "  /saferm-toggle - Toggle",
         "  /saferm-log - View log",
+        "  /saferm-restore - Restore trashed files",
+        "  /saferm-quarantine - List, restore or purge quarantined files",
         "  /saferm-clearlog - Clear log",
         "",
         "All rm commands are logged to:",
-        `  ${debugLogPath}`,
+        `  ${logPath}`,
       ].join('\n'), 'info');
     },
   });
@@ -246,46 +957,302 @@ export default function (pi: ExtensionAPI) {
   });
 
   pi.registerCommand("saferm-log", {
-    description: "Show debug log contents",
+    description: "Show the log: [rewritten|blocked|allowed|trash-failed] [--status <s>] [--search <text>] [--since <date>] [--limit <n>] [--files]",
     handler: async (args, ctx) => {
-      const { debugLogPath } = getEffectiveConfig(ctx);
+      const { logPath, logRotation } = getEffectiveConfig(ctx);
+      const statuses: FileStatus[] = ['trashed', 'quarantined', 'copied', 'pending', 'failed', 'skipped', 'deleted'];
+      const outcomes: LogOutcome[] = ['rewritten', 'blocked', 'allowed', 'trash-failed'];
+      const usage =
+        `Usage: /saferm-log [${outcomes.join('|')}] [--status <${statuses.join('|')}>] [--search <text>] [--since <date>] [--limit <n>] [--files]`;
 
-      try {
-        if (!fs.existsSync(debugLogPath)) {
-          ctx.ui?.notify?.("No debug log found yet.", 'info');
+      // Parse filters; dates accept "today", "yesterday", "2h", "3d", "2025-01-31", ...
+      const tokens = args.trim().split(/\s+/).filter(Boolean);
+      const filter: LogFilter = {};
+      let limit = 20;
+      let showFiles = false;
+      for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        const value = tokens[i + 1];
+        if (outcomes.includes(token as LogOutcome)) {
+          filter.outcome = token as LogOutcome;
+        } else if (token === '--status' && statuses.includes(value as FileStatus)) {
+          filter.status = value as FileStatus;
+          i++;
+        } else if (token === '--search' && value) {
+          filter.search = value;
+          i++;
+        } else if (token === '--since' && value && parseDateArg(value)) {
+          filter.since = parseDateArg(value)!;
+          i++;
+        } else if (token === '--limit' && Number(value) > 0) {
+          limit = Number(value);
+          i++;
+        } else if (token === '--files') {
+          showFiles = true;
+        } else {
+          ctx.ui?.notify?.(`Invalid argument "${token}"${value ? ` ${value}` : ''}\n${usage}`, 'warning');
           return;
         }
+      }
+
+      let entries: LogEntry[];
+      try {
+        entries = filterLogEntries(await readLog(logPath, logRotation), filter);
+      } catch (e) {
+        ctx.ui?.notify?.(`Error reading log: ${e}`, 'warning');
+        return;
+      }
+      const shown = entries.slice(-limit);
+
+      const icons: Record<LogOutcome, string> = { rewritten: '🗑️ ', blocked: '🚫', allowed: '⚠️ ', 'trash-failed': '❗' };
+      const fileIcons: Record<FileStatus, string> = {
+        trashed: '✅', quarantined: '✅', copied: '📑', pending: '⏳', failed: '❌', skipped: '⏭️ ', deleted: '🔥',
+      };
+      const row = (cells: string[]) => cells.map((cell, i) => cell.padEnd([20, 12, 24, 10][i] ?? 0)).join(' ').trimEnd();
+
+      const lines = ["─── Safe-RM Log ───", ""];
+      if (shown.length === 0) {
+        lines.push("No matching entries.");
+      } else {
+        lines.push(row(['Time', 'Outcome', 'Files', 'Size', 'Command']));
+        for (const entry of shown) {
+          const date = new Date(entry.timestamp);
+          const when = `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+          const counts = new Map<FileStatus, number>();
+          for (const file of entry.files) counts.set(file.status, (counts.get(file.status) ?? 0) + 1);
+          const summary = [...counts].map(([status, count]) => `${count} ${status}`).join(', ') || '-';
+          const sizes = entry.files.filter(f => f.size !== null);
+          const size = sizes.length > 0 ? formatBytes(sizes.reduce((sum, f) => sum + f.size!, 0)) : '-';
+          const cmd = entry.command.replace(/\n/g, ' ');
+          lines.push(row([when, `${icons[entry.outcome] ?? ''} ${entry.outcome}`, summary, size, cmd.length > 60 ? cmd.slice(0, 57) + '...' : cmd]));
+
+          if (!showFiles) continue;
+          for (const file of entry.files) {
+            const details = [
+              file.size !== null ? formatBytes(file.size) : null,
+              file.destination ? `→ ${tildify(file.destination)}` : null,
+              file.error ?? null,
+            ].filter(Boolean).join('  ');
+            lines.push(`    ${fileIcons[file.status] ?? ''} ${file.status.padEnd(11)} ${tildify(file.path)}${details ? `  ${details}` : ''}`);
+          }
+          if (entry.reason) lines.push(`    ${entry.reason}`);
+        }
+      }
+      lines.push("");
+      lines.push(`Showing ${shown.length} of ${entries.length} matching entries`);
+      lines.push(`Log: ${logPath}`);
+      lines.push(usage);
+      lines.push("───────────────────");
+
+      ctx.ui?.notify?.(lines.join('\n'), 'info');
+    },
+  });
+
+  pi.registerCommand("saferm-restore", {
+    description: "Restore files safe-rm moved to the trash (list: show them only)",
+    handler: async (args, ctx) => {
+      const { trashLogPath } = getEffectiveConfig(ctx);
+
+      let items: RestorableItem[];
+      try {
+        items = await listRestorable(trashLogPath);
+      } catch (e) {
+        ctx.ui?.notify?.(`Error reading trash log: ${e}`, 'warning');
+        return;
+      }
+
+      if (items.length === 0) {
+        ctx.ui?.notify?.("No files trashed by safe-rm are left in the trash.", 'info');
+        return;
+      }
 
-        const content = fs.readFileSync(debugLogPath, 'utf8');
-        const lines = content.trim().split('\n');
-        const last20 = lines.slice(-20); // Show last 20 entries
+      const label = (item: RestorableItem) => {
+        const date = new Date(item.record.timestamp);
+        const when = `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+        return `🗑️  ${when}  ${tildify(item.record.originalPath)}`;
+      };
 
+      if (args.trim() === 'list' || !ctx.hasUI) {
         ctx.ui?.notify?.([
-          "╭─ Safe-RM Debug Log (last 20) ─╮",
-          `│                                    │`,
-          ...last20.map(line => `│ ${line.slice(0, 75)}${line.length > 75 ? '...' : ''} │`),
-          `│                                    │`,
-          `╰────────────────────────────────────╯`,
+          `─── Trashed by safe-rm (${items.length}) ───`,
+          ...items.map(label),
           "",
-          `Full log: ${debugLogPath}`,
+          "Restore with /saferm-restore",
         ].join('\n'), 'info');
+        return;
+      }
+
+      // Pick items one at a time (or all at once) until done
+      while (items.length > 0) {
+        const restoreAll = `♻️  Restore all ${items.length} item(s)`;
+        const done = "✅ Done";
+        const options = [...items.map(label), restoreAll, done];
+        const choice = await ctx.ui.select("Restore which item to its original location?", options);
+        if (!choice || choice === done) break;
+
+        const selected = choice === restoreAll ? [...items] : [items[options.indexOf(choice)]];
+        for (const item of selected) {
+          const original = item.record.originalPath;
+
+          let resolution: ConflictResolution = 'keep-both';
+          if (await exists(original)) {
+            const keepBoth = "📑 Keep both (restore with \"(restored)\" added to the name)";
+            const replace = "🔁 Replace it (the existing one goes to the trash)";
+            const answer = await ctx.ui.select(`${tildify(original)} already exists`, [keepBoth, replace, "⏭️  Skip"]);
+            resolution = answer === keepBoth ? 'keep-both' : answer === replace ? 'replace' : 'skip';
+          }
+
+          try {
+            const target = await restoreItem(item, resolution, p => moveToTrash(ctx, p, trashLogPath, '/saferm-restore'));
+            items = items.filter(i => i !== item);
+            if (target) {
+              ctx.ui.notify(`♻️  Restored ${tildify(target)}`, 'info');
+            } else {
+              ctx.ui.notify(`Skipped ${tildify(original)}`, 'info');
+            }
+          } catch (e) {
+            ctx.ui.notify(`⚠️  Could not restore ${tildify(original)}: ${e instanceof Error ? e.message : e}`, 'warning');
+            items = items.filter(i => i !== item);
+          }
+        }
+      }
+    },
+  });
+
+  pi.registerCommand("saferm-quarantine", {
+    description: "List, restore or purge files in the project's quarantine (list | restore | purge [all])",
+    handler: async (args, ctx) => {
+      const { quarantineRoot } = getEffectiveConfig(ctx);
+      const [action = 'list', scope] = args.trim().split(/\s+/).filter(Boolean);
+
+      let batches: QuarantineBatch[];
+      try {
+        batches = await listBatches(quarantineRoot);
       } catch (e) {
-        ctx.ui?.notify?.(`Error reading log: ${e}`, 'warning');
+        ctx.ui?.notify?.(`Error reading quarantine: ${e}`, 'warning');
+        return;
+      }
+
+      if (batches.length === 0) {
+        ctx.ui?.notify?.(`Nothing in the quarantine (${tildify(quarantineRoot)}).`, 'info');
+        return;
       }
+
+      const label = (batch: QuarantineBatch) => {
+        const date = new Date(batch.manifest.createdAt);
+        const when = `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+        const command = batch.manifest.command.length > 50 ? batch.manifest.command.slice(0, 47) + '...' : batch.manifest.command;
+        return `📦 ${when}  ${batch.manifest.items.length} item(s), ${formatBytes(batchSize(batch))}  ${command}`;
+      };
+
+      if (action === 'list' || !ctx.hasUI) {
+        const total = batches.reduce((sum, batch) => sum + batchSize(batch), 0);
+        ctx.ui?.notify?.([
+          `─── Quarantine: ${batches.length} batch(es), ${formatBytes(total)} ───`,
+          ...batches.flatMap(batch => [
+            label(batch),
+            ...batch.manifest.items.map(item => `    ${item.copy ? '📑' : '🗑️ '} ${tildify(item.originalPath)}`),
+          ]),
+          "",
+          `Stored in ${tildify(quarantineRoot)}`,
+          "Restore with /saferm-quarantine restore, delete with /saferm-quarantine purge",
+        ].join('\n'), 'info');
+        return;
+      }
+
+      if (action === 'purge') {
+        const all = `🔥 All ${batches.length} batch(es)`;
+        const choice = scope === 'all' ? all : await ctx.ui.select("Permanently delete which batch?", [...batches.map(label), all]);
+        if (!choice) return;
+        const selected = choice === all ? batches : [batches[batches.map(label).indexOf(choice)]];
+        const items = selected.reduce((sum, batch) => sum + batch.manifest.items.length, 0);
+        const confirmed = await ctx.ui.confirm("Purge quarantine", `Permanently delete ${items} item(s) in ${selected.length} batch(es)? This can't be undone.`);
+        if (!confirmed) return;
+        for (const batch of selected) await purgeBatch(batch);
+        ctx.ui.notify(`🔥 Purged ${selected.length} batch(es) from the quarantine`, 'info');
+        return;
+      }
+
+      if (action !== 'restore') {
+        ctx.ui.notify(`Unknown action "${action}". Use list, restore or purge.`, 'warning');
+        return;
+      }
+
+      const choice = await ctx.ui.select("Restore which batch to its original locations?", batches.map(label));
+      if (!choice) return;
+      const batch = batches[batches.map(label).indexOf(choice)];
+
+      const restored: QuarantineBatch['manifest']['items'] = [];
+      for (const item of batch.manifest.items) {
+        const original = item.originalPath;
+
+        let resolution: ConflictResolution = 'keep-both';
+        if (await exists(original)) {
+          const keepBoth = "📑 Keep both (restore with \"(restored)\" added to the name)";
+          const replace = "🔁 Replace it (the existing one goes to the quarantine)";
+          const answer = await ctx.ui.select(`${tildify(original)} already exists`, [keepBoth, replace, "⏭️  Skip"]);
+          resolution = answer === keepBoth ? 'keep-both' : answer === replace ? 'replace' : 'skip';
+        }
+
+        try {
+          const restorable: RestorableItem = {
+            record: { timestamp: batch.manifest.createdAt, cwd: batch.manifest.cwd, command: batch.manifest.command, originalPath: original },
+            trashedPath: path.join(batch.dir, item.path),
+            infoPath: null,
+          };
+          const target = await restoreItem(restorable, resolution, async (p) => {
+            const bin = openQuarantine(quarantineRoot, { cwd: ctx.cwd, command: '/saferm-quarantine restore' });
+            await bin.move(p);
+            await bin.finish();
+          });
+          if (target) {
+            restored.push(item);
+            ctx.ui.notify(`♻️  Restored ${tildify(target)}`, 'info');
+          } else {
+            ctx.ui.notify(`Skipped ${tildify(original)}`, 'info');
+          }
+        } catch (e) {
+          ctx.ui.notify(`⚠️  Could not restore ${tildify(original)}: ${e instanceof Error ? e.message : e}`, 'warning');
+        }
+      }
+
+      await removeFromBatch(batch, restored);
     },
   });
 
+  // Reset session choices and enforce the quarantine's retention policy
+  pi.on("session_start", async (_event, ctx) => {
+    // "Always trash" never carries over to a new session
+    sessionAlwaysTrash = false;
+
+    const { mode, quarantine, quarantineRoot } = getEffectiveConfig(ctx);
+    if (mode !== 'quarantine') return;
+
+    try {
+      const purged = await enforceRetention(quarantineRoot, quarantine);
+      if (purged.length > 0) {
+        const items = purged.reduce((sum, batch) => sum + batch.manifest.items.length, 0);
+        ctx.ui?.notify?.(
+          `🗑️  safe-rm: deleted ${purged.length} quarantine batch(es) (${items} item(s)) past the retention policy ` +
+            `(${quarantine.maxAgeDays} days, ${quarantine.maxMegabytes} MB)`,
+          'info'
+        );
+      }
+    } catch (e) {
+      if (ctx.hasUI) ctx.ui.notify(`⚠️  safe-rm: could not apply the quarantine retention policy: ${e instanceof Error ? e.message : e}`, 'warning');
+    }
+  });
+
   pi.registerCommand("saferm-clearlog", {
-    description: "Clear debug log file",
+    description: "Clear the log (and its rotated files)",
     handler: async (args, ctx) => {
-      const { debugLogPath } = getEffectiveConfig(ctx);
+      const { logPath, logRotation } = getEffectiveConfig(ctx);
 
       try {
-        if (fs.existsSync(debugLogPath)) {
-          fs.unlinkSync(debugLogPath);
-          ctx.ui?.notify?.("🗑️  Debug log cleared.", 'info');
+        if (await clearLog(logPath, logRotation) > 0) {
+          ctx.ui?.notify?.("🗑️  Log cleared.", 'info');
         } else {
-          ctx.ui?.notify?.("No debug log to clear.", 'info');
+          ctx.ui?.notify?.("No log to clear.", 'info');
         }
       } catch (e) {
         ctx.ui?.notify?.(`Error clearing log: ${e}`, 'warning');
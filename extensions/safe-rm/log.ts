@@ -0,0 +1,164 @@
+/**
+ * Activity log for safe-rm
+ *
+ * Every command safe-rm acts on is appended as one JSON line, with what it
+ * did to each file, so removals can be reviewed with /saferm-log:
+ *
+ * {"timestamp":"2025-01-01T12:00:00.000Z","sessionId":"…","cwd":"/work/app",
+ *  "command":"rm -r build","rewrittenCommand":"printf …","outcome":"rewritten",
+ *  "mode":"trash","files":[{"path":"/work/app/build","size":52311,
+ *  "status":"trashed","destination":"~/.local/share/Trash/files/build"}]}
+ *
+ * outcome:
+ * - "rewritten": the command was replaced (or files were copied before it ran)
+ * - "blocked":   the command was refused (protected path, declined, no UI)
+ * - "allowed":   the user let a command run as written (one safe-rm couldn't
+ *   handle, or "permanently delete" in confirm mode)
+ * - "trash-failed": the macOS `trash` in a rewritten command failed; a second
+ *   entry lists the files it left, as "trashed" when safe-rm moved them to
+ *   the trash itself (trashFallback) or "failed"
+ *
+ * File status:
+ * - "trashed" / "quarantined": moved by safe-rm itself
+ * - "copied":  a copy was saved before the command overwrites the file
+ * - "pending": handed to the macOS `trash` command, which runs with the command
+ * - "failed":  left in place (missing, not allowed by the command's flags, or
+ *   the move failed; see "error")
+ * - "skipped": not touched because the command was blocked, or never got
+ *   to a removal that helper.ts would have done
+ * - "deleted": the user chose to delete it permanently (confirm mode)
+ *
+ * The log is rotated by size: `log.jsonl` → `log.jsonl.1` → … up to
+ * `maxFiles` old files.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export type LogOutcome = 'rewritten' | 'blocked' | 'allowed' | 'trash-failed';
+
+export type FileStatus = 'trashed' | 'quarantined' | 'copied' | 'pending' | 'failed' | 'skipped' | 'deleted';
+
+export interface LogFile {
+  /** Absolute path */
+  path: string;
+  /** Bytes in and under the path before the command ran; null if it was missing or not measured */
+  size: number | null;
+  status: FileStatus;
+  /** Where the item (or its copy) went */
+  destination?: string;
+  error?: string;
+}
+
+export interface LogEntry {
+  timestamp: string;
+  sessionId: string | null;
+  cwd: string;
+  command: string;
+  /** The command that ran instead, when safe-rm replaced it */
+  rewrittenCommand: string | null;
+  outcome: LogOutcome;
+  mode: 'trash' | 'quarantine';
+  files: LogFile[];
+  /** Why a command was blocked */
+  reason?: string;
+}
+
+export interface LogRotation {
+  /** Rotate once the log is larger than this */
+  maxBytes: number;
+  /** Rotated files to keep */
+  maxFiles: number;
+}
+
+export interface LogFilter {
+  outcome?: LogOutcome;
+  /** Only entries with a file in this state */
+  status?: FileStatus;
+  /** Substring of a file path or the command */
+  search?: string;
+  /** Inclusive lower bound */
+  since?: Date;
+}
+
+/**
+ * Append an entry, rotating the log first if it has grown past the limit.
+ */
+export async function appendLogEntry(logPath: string, entry: LogEntry, rotation: LogRotation): Promise<void> {
+  await fs.mkdir(path.dirname(logPath), { recursive: true });
+  await rotateIfNeeded(logPath, rotation);
+  await fs.appendFile(logPath, JSON.stringify(entry) + '\n', 'utf8');
+}
+
+/**
+ * Read the log, oldest first, including rotated files. Malformed lines are
+ * skipped; missing files read as empty.
+ */
+export async function readLog(logPath: string, rotation: LogRotation): Promise<LogEntry[]> {
+  const entries: LogEntry[] = [];
+  for (let n = rotation.maxFiles; n >= 0; n--) {
+    let content: string;
+    try {
+      content = await fs.readFile(n === 0 ? logPath : `${logPath}.${n}`, 'utf8');
+    } catch {
+      continue;
+    }
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line);
+        if (entry && typeof entry.timestamp === 'string' && Array.isArray(entry.files)) entries.push(entry);
+      } catch {
+        // Partial write or an entry from the old plain-text log
+      }
+    }
+  }
+  return entries;
+}
+
+export function filterLogEntries(entries: LogEntry[], filter: LogFilter): LogEntry[] {
+  const search = filter.search?.toLowerCase();
+  return entries.filter((entry) => {
+    if (filter.outcome && entry.outcome !== filter.outcome) return false;
+    if (filter.status && !entry.files.some((f) => f.status === filter.status)) return false;
+    if (filter.since && !(Date.parse(entry.timestamp) >= filter.since.getTime())) return false;
+    if (search && !entry.command.toLowerCase().includes(search) && !entry.files.some((f) => f.path.toLowerCase().includes(search))) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Delete the log and its rotated files. Returns how many files were removed.
+ */
+export async function clearLog(logPath: string, rotation: LogRotation): Promise<number> {
+  let removed = 0;
+  for (let n = 0; n <= rotation.maxFiles; n++) {
+    try {
+      await fs.unlink(n === 0 ? logPath : `${logPath}.${n}`);
+      removed++;
+    } catch {
+      // Not there
+    }
+  }
+  return removed;
+}
+
+async function rotateIfNeeded(logPath: string, rotation: LogRotation): Promise<void> {
+  try {
+    if ((await fs.stat(logPath)).size < rotation.maxBytes) return;
+  } catch {
+    return;
+  }
+
+  if (rotation.maxFiles <= 0) {
+    await fs.unlink(logPath);
+    return;
+  }
+  await fs.rm(`${logPath}.${rotation.maxFiles}`, { force: true });
+  for (let n = rotation.maxFiles - 1; n >= 1; n--) {
+    await fs.rename(`${logPath}.${n}`, `${logPath}.${n + 1}`).catch(() => {});
+  }
+  await fs.rename(logPath, `${logPath}.1`);
+}
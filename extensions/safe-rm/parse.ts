@@ -0,0 +1,440 @@
+/**
+ * rm detection for safe-rm
+ *
+ * Uses the shared shell tokenizer to find rm anywhere in a command line:
+ * after `cd build &&`, inside pipelines and subshells, behind `sudo`/`env`/
+ * `xargs`, and inside `sh -c '...'` scripts. Each match carries the words
+ * and offsets needed to rewrite only that segment, leaving the rest of the
+ * command intact.
+ *
+ * Besides rm, the other ways to destroy files are detected, each behind its
+ * own setting:
+ *
+ * - Removal like rm: `unlink`, `rmdir`, `shred`, `mv <files> /dev/null`,
+ *   and `find` with `-delete` or `-exec rm`
+ * - Overwrites that leave the path in place: `git rm`, `truncate` to a
+ *   smaller size, and `>` redirections onto existing files
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import { commandName, parseShellCommands, reservedPrefixLength, unwrapCommand, type ShellCommand, type ShellRedirect, type ShellWord } from '../../shared';
+
+const NESTED_SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh']);
+
+/** Commands that remove their operands like rm does */
+export type RemoveTool = 'rm' | 'unlink' | 'rmdir' | 'shred' | 'mv';
+
+/** Detectors besides rm itself, each enabled in `safeRm.detectors` */
+export interface Detectors {
+  /** `find -delete`, `find -exec rm` */
+  find: boolean;
+  /** `git rm` (without --cached) */
+  gitRm: boolean;
+  unlink: boolean;
+  rmdir: boolean;
+  shred: boolean;
+  /** `truncate` to a smaller size */
+  truncate: boolean;
+  /** `> file` onto an existing file */
+  redirect: boolean;
+  /** `mv <files> /dev/null` */
+  mvToDevNull: boolean;
+}
+
+// Options that take the next word as their value
+const VALUE_OPTIONS: Partial<Record<RemoveTool, string[]>> = {
+  shred: ['-n', '-s', '--iterations', '--size', '--random-source'],
+};
+
+export interface RmInvocation {
+  kind: 'rm';
+  tool: RemoveTool;
+  command: ShellCommand;
+  /** The command word itself (`rm`, possibly `/bin/rm`, or `unlink`, `mv`, ...) */
+  rmWord: ShellWord;
+  /** Option words (and their values), including `--` */
+  options: ShellWord[];
+  /** Operands: everything that isn't an option, and everything after `--` */
+  operands: ShellWord[];
+  /** Words that aren't removed files, e.g. the `/dev/null` of mv */
+  extra: ShellWord[];
+  /** Directory the command runs in, or null when a `cd` target can't be known */
+  cwd: string | null;
+  /** Operands come from stdin (`xargs rm`) */
+  fromXargs: boolean;
+}
+
+/** An rm run by find for each match: `-exec rm -f {} ;` */
+export interface FindRmExec {
+  /** `-exec`/`-execdir` through the terminating `;` or `+` */
+  words: ShellWord[];
+  rmWord: ShellWord;
+  options: ShellWord[];
+}
+
+export interface FindInvocation {
+  kind: 'find';
+  command: ShellCommand;
+  /** Words after `find`: start paths and the expression */
+  args: ShellWord[];
+  /** `-delete` actions */
+  deletes: ShellWord[];
+  rmExecs: FindRmExec[];
+  /** Other actions that have effects of their own (`-exec cmd`, `-ok`, `-fprint`, ...) */
+  otherActions: boolean;
+  cwd: string | null;
+}
+
+/**
+ * A command that destroys a file's contents but leaves (or recreates) the
+ * path: the files are copied to the trash before it runs.
+ */
+export interface OverwriteInvocation {
+  kind: 'overwrite';
+  tool: 'git rm' | 'truncate' | 'redirect';
+  command: ShellCommand;
+  /** Words (or redirection targets) naming the files, as raw source spans */
+  operands: { start: number; end: number }[];
+  /** For `git rm`: operands are pathspecs, matched against tracked files */
+  pathspecs: boolean;
+  /** Files come from somewhere that can't be known up front (`--pathspec-from-file`, `--reference`) */
+  unknown: boolean;
+  /** For `git rm`: `-f`, without which git refuses files that have changes */
+  force: boolean;
+  cwd: string | null;
+}
+
+export interface NestedScript {
+  kind: 'nested';
+  /** The word holding the script of `sh -c '...'` */
+  scriptWord: ShellWord;
+  cwd: string | null;
+}
+
+export type RmSegment = RmInvocation | FindInvocation | OverwriteInvocation | NestedScript;
+
+export interface RmFlags {
+  force: boolean;
+  recursive: boolean;
+  emptyDirs: boolean;
+  /** Only directories can be removed (rmdir) */
+  dirsOnly: boolean;
+}
+
+/**
+ * Find the rm invocations in a command line (and the other destructive
+ * commands enabled in `detectors`), and the `sh -c` scripts that contain
+ * one, in the order they appear. `cwd` is where the command starts; `cd` is
+ * followed per nesting level, like the shell would.
+ */
+export function findRmSegments(command: string, cwd: string, detectors: Detectors): RmSegment[] {
+  const segments: RmSegment[] = [];
+  // Working directory per nesting depth, so a `cd` inside a subshell
+  // doesn't leak into the commands that follow it
+  const dirs: (string | null)[] = [cwd];
+
+  for (const shellCommand of parseShellCommands(command)) {
+    const words = shellCommand.words.map((w) => w.value);
+    const { argv, offset } = unwrapCommand(words);
+
+    const depth = shellCommand.depth;
+    dirs.length = Math.min(dirs.length, depth + 1);
+    while (dirs.length <= depth) dirs.push(dirs[dirs.length - 1]);
+    const currentDir = dirs[depth];
+
+    // `> file` truncates whatever command it is attached to (or none)
+    if (detectors.redirect) {
+      const targets = shellCommand.redirects.filter(isTruncatingRedirect);
+      if (targets.length > 0) {
+        segments.push({
+          kind: 'overwrite',
+          tool: 'redirect',
+          command: shellCommand,
+          operands: targets.map((r) => ({ start: skipBlanks(command, r.start + r.op.length), end: r.end })),
+          pathspecs: false,
+          unknown: false,
+          force: false,
+          cwd: currentDir,
+        });
+      }
+    }
+
+    if (argv.length === 0) continue;
+    const name = commandName(argv[0]);
+
+    if (name === 'cd' || name === 'pushd') {
+      dirs[depth] = changeDir(currentDir, argv.slice(1));
+      continue;
+    }
+
+    if (NESTED_SHELLS.has(name)) {
+      const scriptIndex = nestedScriptIndex(argv);
+      if (scriptIndex !== -1) {
+        const scriptWord = shellCommand.words[offset + scriptIndex];
+        if (findRmSegments(scriptWord.value, currentDir ?? cwd, detectors).length > 0) {
+          segments.push({ kind: 'nested', scriptWord, cwd: currentDir });
+        }
+        continue;
+      }
+    }
+
+    const fromXargs = words.slice(0, offset).some((w) => commandName(w) === 'xargs');
+    const toolWords = shellCommand.words.slice(offset);
+
+    if (name === 'find' && detectors.find) {
+      const find = parseFind(shellCommand, toolWords.slice(1), currentDir);
+      if (find) segments.push(find);
+      continue;
+    }
+
+    if (name === 'git' && detectors.gitRm) {
+      const gitRm = parseGitRm(shellCommand, toolWords, currentDir);
+      if (gitRm) segments.push(gitRm);
+      continue;
+    }
+
+    if (name === 'truncate' && detectors.truncate) {
+      const truncate = parseTruncate(shellCommand, toolWords.slice(1), currentDir);
+      if (truncate) segments.push(truncate);
+      continue;
+    }
+
+    const tool = removeTool(name, detectors);
+    if (!tool) continue;
+
+    const { options, operands } = splitOptions(toolWords.slice(1), VALUE_OPTIONS[tool] ?? []);
+    const extra: ShellWord[] = [];
+    if (tool === 'mv') {
+      // Only `mv <files> /dev/null` destroys anything
+      if (operands.length < 2 || operands[operands.length - 1].value !== '/dev/null') continue;
+      extra.push(operands.pop()!);
+    }
+
+    segments.push({
+      kind: 'rm',
+      tool,
+      command: shellCommand,
+      rmWord: toolWords[0],
+      options,
+      operands,
+      extra,
+      cwd: currentDir,
+      fromXargs,
+    });
+  }
+
+  return segments;
+}
+
+/**
+ * The rm flags that change what gets removed.
+ */
+export function parseRmFlags(options: string[]): RmFlags {
+  const short = options.filter((o) => /^-[^-]/.test(o)).join('');
+  return {
+    force: options.includes('--force') || short.includes('f'),
+    recursive: options.includes('--recursive') || /[rR]/.test(short),
+    emptyDirs: options.includes('--dir') || short.includes('d'),
+    dirsOnly: false,
+  };
+}
+
+/**
+ * What a removal command may remove: rm's own flags, or the fixed rules of
+ * the other commands.
+ */
+export function removalFlags(segment: RmInvocation): RmFlags {
+  switch (segment.tool) {
+    case 'rm':
+      return parseRmFlags(segment.options.map((o) => o.value));
+    case 'rmdir':
+      return { force: false, recursive: false, emptyDirs: true, dirsOnly: true };
+    default:
+      // unlink, shred and mv onto /dev/null all fail for directories
+      return { force: false, recursive: false, emptyDirs: false, dirsOnly: false };
+  }
+}
+
+/**
+ * The span to replace when a command is rewritten: its words, wrappers
+ * included, but not the reserved words before them (`then`, `do`, `!`, `{`)
+ * that belong to the surrounding compound command, nor trailing
+ * redirections.
+ */
+export function rewriteRange(command: ShellCommand): { start: number; end: number } {
+  const words = command.words;
+  return { start: words[reservedPrefixLength(words)].start, end: words[words.length - 1].end };
+}
+
+/**
+ * The span of a command to wrap when something has to run just before it:
+ * like rewriteRange, but with its redirections, which the shell applies
+ * (truncating `> file`) before the command runs.
+ */
+export function wrapRange(command: ShellCommand): { start: number; end: number } {
+  const spans = [...command.words.slice(reservedPrefixLength(command.words)), ...command.redirects];
+  return { start: Math.min(...spans.map((s) => s.start)), end: Math.max(...spans.map((s) => s.end)) };
+}
+
+/**
+ * Apply text replacements (offsets into `command`) and return the new command.
+ */
+export function applyReplacements(command: string, replacements: { start: number; end: number; text: string }[]): string {
+  let result = command;
+  for (const { start, end, text } of [...replacements].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, start) + text + result.slice(end);
+  }
+  return result;
+}
+
+function removeTool(name: string, detectors: Detectors): RemoveTool | null {
+  if (name === 'rm') return 'rm';
+  if (name === 'unlink' && detectors.unlink) return 'unlink';
+  if (name === 'rmdir' && detectors.rmdir) return 'rmdir';
+  if (name === 'shred' && detectors.shred) return 'shred';
+  if (name === 'mv' && detectors.mvToDevNull) return 'mv';
+  return null;
+}
+
+function splitOptions(args: ShellWord[], valueOptions: string[]): { options: ShellWord[]; operands: ShellWord[] } {
+  const options: ShellWord[] = [];
+  const operands: ShellWord[] = [];
+  let endOfOptions = false;
+  for (let i = 0; i < args.length; i++) {
+    const word = args[i];
+    if (!endOfOptions && word.value === '--') {
+      endOfOptions = true;
+      options.push(word);
+    } else if (!endOfOptions && word.value.startsWith('-') && word.value.length > 1) {
+      options.push(word);
+      if (valueOptions.includes(word.value) && i + 1 < args.length) options.push(args[++i]);
+    } else {
+      operands.push(word);
+    }
+  }
+  return { options, operands };
+}
+
+// `>`, `>|`, `2>`, `&>` onto a file (not `>>`, fd duplication or /dev/*)
+function isTruncatingRedirect(redirect: ShellRedirect): boolean {
+  if (!/^(?:\d*|&)>\|?$/.test(redirect.op)) return false;
+  return redirect.target !== '' && !redirect.target.startsWith('/dev/');
+}
+
+// find with -delete or -exec rm; null if it removes nothing
+function parseFind(command: ShellCommand, args: ShellWord[], cwd: string | null): FindInvocation | null {
+  const deletes: ShellWord[] = [];
+  const rmExecs: FindRmExec[] = [];
+  let otherActions = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i].value;
+    if (value === '-delete') {
+      deletes.push(args[i]);
+    } else if (['-exec', '-execdir', '-ok', '-okdir'].includes(value)) {
+      let end = i + 1;
+      while (end < args.length && args[end].value !== ';' && args[end].value !== '+') end++;
+      const words = args.slice(i, end + 1);
+      const rmWord = words[1];
+      if ((value === '-exec' || value === '-execdir') && rmWord && commandName(rmWord.value) === 'rm') {
+        const options = words.slice(2, -1).filter((w) => w.value.startsWith('-') && w.value.length > 1);
+        rmExecs.push({ words, rmWord, options });
+      } else {
+        otherActions = true;
+      }
+      i = end;
+    } else if (/^-f(?:print0?|printf|ls)$/.test(value)) {
+      otherActions = true;
+    }
+  }
+
+  if (deletes.length === 0 && rmExecs.length === 0) return null;
+  return { kind: 'find', command, args, deletes, rmExecs, otherActions, cwd };
+}
+
+// git rm that deletes working tree files (not --cached or --dry-run)
+function parseGitRm(command: ShellCommand, words: ShellWord[], cwd: string | null): OverwriteInvocation | null {
+  // Global options before the subcommand; -C changes directory
+  let dir = cwd;
+  let i = 1;
+  for (; i < words.length; i++) {
+    const value = words[i].value;
+    if (value === '-C' && i + 1 < words.length) {
+      dir = changeDir(dir, [words[++i].value]);
+    } else if (['-c', '--git-dir', '--work-tree', '--namespace'].includes(value)) {
+      i++;
+    } else if (!value.startsWith('-')) {
+      break;
+    }
+  }
+  if (words[i]?.value !== 'rm') return null;
+
+  const { options, operands } = splitOptions(words.slice(i + 1), []);
+  const values = options.map((o) => o.value);
+  if (values.some((v) => v === '--cached' || v === '--dry-run' || /^-[a-z]*n/.test(v))) return null;
+  if (operands.length === 0 && !values.some((v) => v.startsWith('--pathspec-from-file'))) return null;
+
+  return {
+    kind: 'overwrite',
+    tool: 'git rm',
+    command,
+    operands: operands.map((w) => ({ start: w.start, end: w.end })),
+    pathspecs: true,
+    unknown: values.some((v) => v.startsWith('--pathspec-from-file')),
+    force: values.some((v) => v === '--force' || /^-[a-z]*f/.test(v)),
+    cwd: dir,
+  };
+}
+
+// truncate that may shrink files: any size but `+N` or `>N` (never shrinks)
+function parseTruncate(command: ShellCommand, args: ShellWord[], cwd: string | null): OverwriteInvocation | null {
+  const { options, operands } = splitOptions(args, ['-s', '--size', '-r', '--reference']);
+  const sizes: string[] = [];
+  let reference = false;
+  for (let i = 0; i < options.length; i++) {
+    const value = options[i].value;
+    if (value === '-s' || value === '--size') sizes.push(options[++i]?.value ?? '');
+    else if (value.startsWith('--size=')) sizes.push(value.slice('--size='.length));
+    else if (/^-s./.test(value)) sizes.push(value.slice(2));
+    else if (value === '-r' || value === '--reference' || value.startsWith('--reference=')) reference = true;
+  }
+  if (operands.length === 0) return null;
+  if (!reference && sizes.every((size) => /^[+>]/.test(size))) return null;
+
+  return {
+    kind: 'overwrite',
+    tool: 'truncate',
+    command,
+    operands: operands.map((w) => ({ start: w.start, end: w.end })),
+    pathspecs: false,
+    unknown: false,
+    force: false,
+    cwd,
+  };
+}
+
+function skipBlanks(text: string, pos: number): number {
+  while (pos < text.length && (text[pos] === ' ' || text[pos] === '\t')) pos++;
+  return pos;
+}
+
+function changeDir(currentDir: string | null, args: string[]): string | null {
+  const target = args.find((a) => !a.startsWith('-') || a === '-');
+  if (target === undefined) return os.homedir();
+  if (currentDir === null || target === '-' || /[$`]/.test(target)) return null;
+  if (target === '~' || target.startsWith('~/')) return path.join(os.homedir(), target.slice(1));
+  if (target.startsWith('~')) return null;
+  return path.resolve(currentDir, target);
+}
+
+function nestedScriptIndex(argv: string[]): number {
+  for (let i = 1; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-c' || (/^-[a-z]*c[a-z]*$/i.test(arg) && !arg.startsWith('--'))) {
+      return i + 1 < argv.length ? i + 1 : -1;
+    }
+    if (!arg.startsWith('-')) break;
+  }
+  return -1;
+}
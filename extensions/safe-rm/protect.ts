@@ -0,0 +1,140 @@
+/**
+ * Protected paths and blast-radius limits for safe-rm
+ *
+ * The trash makes a removal recoverable, but trashing `~`, `/`, a repository
+ * or its `.git` directory still breaks things, and moving 50,000 files to
+ * the trash is rarely what was meant. Before anything is trashed:
+ *
+ * - Protected paths are always refused: `/`, the home directory, repository
+ *   roots, `.git` directories, anything outside the project directory, and
+ *   paths from `safeRm.protectedPaths` (plus everything containing them)
+ * - The files and bytes under the targets are counted; above the limits the
+ *   user has to confirm
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findRepoRoot } from './git';
+
+export interface ProtectionRules {
+  /** The home directory and its parents */
+  home: boolean;
+  /** Repository roots (directories containing `.git`) and their parents */
+  repoRoot: boolean;
+  /** `.git` directories and anything inside them */
+  gitDir: boolean;
+  /** Anything outside the project directory (the session's cwd) */
+  outsideCwd: boolean;
+}
+
+export interface ProtectionConfig {
+  rules: ProtectionRules;
+  /** More paths to protect, with everything inside them (`~/...` or relative to the project) */
+  protectedPaths: string[];
+  /** Paths outside the project directory that may still be removed */
+  allowedOutsideCwd: string[];
+}
+
+export interface BlastRadius {
+  files: number;
+  bytes: number;
+  /** Counting stopped early because a limit was passed */
+  truncated: boolean;
+}
+
+/**
+ * Why `target` (absolute) must not be removed, or null if it may be.
+ * `removal` is false for commands that only overwrite a file's contents,
+ * which may touch files outside the project.
+ */
+export function protectedReason(target: string, cwd: string, config: ProtectionConfig, removal = true): string | null {
+  const home = os.homedir();
+
+  if (target === path.parse(target).root) return 'the filesystem root';
+  if (config.rules.home && contains(target, home)) return target === home ? 'the home directory' : 'contains the home directory';
+
+  if (config.rules.gitDir && target.split(path.sep).includes('.git')) return 'a .git directory';
+  if (config.rules.repoRoot) {
+    if (fs.existsSync(path.join(target, '.git'))) return 'a repository root';
+    const root = findRepoRoot(cwd);
+    if (root && contains(target, root)) return 'contains the repository';
+  }
+
+  for (const entry of config.protectedPaths) {
+    const protectedPath = expandHome(entry, cwd);
+    if (contains(target, protectedPath) || contains(protectedPath, target)) return `listed in protectedPaths as ${entry}`;
+  }
+
+  if (removal && config.rules.outsideCwd) {
+    if (target === cwd) return 'the project directory';
+    const allowed = [cwd, ...config.allowedOutsideCwd.map((dir) => expandHome(dir, cwd))];
+    if (!allowed.some((dir) => contains(dir, target))) return 'outside the project directory';
+  }
+
+  return null;
+}
+
+/**
+ * Count the files (and their bytes) in and under `targets`, without following
+ * symlinks. Stops once either limit is passed.
+ */
+export function measureBlastRadius(targets: string[], maxFiles: number, maxBytes: number): BlastRadius {
+  const radius: BlastRadius = { files: 0, bytes: 0, truncated: false };
+  const pending = [...targets];
+
+  while (pending.length > 0) {
+    if (radius.files > maxFiles || radius.bytes > maxBytes) {
+      radius.truncated = true;
+      break;
+    }
+
+    const current = pending.pop()!;
+    let stat: fs.Stats;
+    try {
+      stat = fs.lstatSync(current);
+    } catch {
+      continue;
+    }
+
+    if (!stat.isDirectory()) {
+      radius.files++;
+      radius.bytes += stat.size;
+      continue;
+    }
+
+    try {
+      for (const entry of fs.readdirSync(current)) pending.push(path.join(current, entry));
+    } catch {
+      // Unreadable directory: trashing it will fail anyway
+    }
+  }
+
+  return radius;
+}
+
+/**
+ * Human-readable size, e.g. "1.2 GB".
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+// True if `child` is `parent` or inside it
+function contains(parent: string, child: string): boolean {
+  const relative = path.relative(parent, child);
+  return relative === '' || (relative !== '..' && !relative.startsWith('..' + path.sep) && !path.isAbsolute(relative));
+}
+
+// Absolute path for a configured path: `~/...`, absolute, or relative to the project
+function expandHome(p: string, cwd: string): string {
+  if (p === '~' || p.startsWith('~/')) return path.join(os.homedir(), p.slice(1));
+  return path.resolve(cwd, p);
+}
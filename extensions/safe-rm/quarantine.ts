@@ -0,0 +1,198 @@
+/**
+ * Project-local quarantine for safe-rm
+ *
+ * With `safeRm.mode: "quarantine"`, removed files go to the project instead
+ * of the OS trash: each intercepted command gets a batch directory
+ * `.pi/quarantine/<timestamp>/` where files keep their path relative to the
+ * project (files from outside it go under `external/` with their absolute
+ * path). A `manifest.json` per batch records the command and each item's
+ * original path and size, which is what listing, restoring and purging use.
+ *
+ * Retention (`maxAgeDays`, `maxMegabytes`) is enforced on session start by
+ * permanently deleting the oldest batches.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { measureBlastRadius } from './protect';
+
+export interface QuarantineItem {
+  /** Absolute path the item was removed from */
+  originalPath: string;
+  /** Location inside the batch directory */
+  path: string;
+  size: number;
+  /** A copy of a file that was about to be overwritten (the original stayed in place) */
+  copy: boolean;
+}
+
+export interface QuarantineManifest {
+  createdAt: string;
+  cwd: string;
+  command: string;
+  items: QuarantineItem[];
+}
+
+export interface QuarantineBatch {
+  /** Name of the batch directory */
+  id: string;
+  dir: string;
+  manifest: QuarantineManifest;
+}
+
+export interface RetentionPolicy {
+  maxAgeDays: number;
+  maxMegabytes: number;
+}
+
+const MANIFEST = 'manifest.json';
+
+/**
+ * Create an empty batch for a command. The quarantine directory gets a
+ * `.gitignore` so batches never show up as changes.
+ */
+export async function createBatch(root: string, cwd: string, command: string): Promise<QuarantineBatch> {
+  await fs.mkdir(root, { recursive: true });
+  await fs.writeFile(path.join(root, '.gitignore'), '*\n', { flag: 'wx' }).catch(() => {});
+
+  const createdAt = new Date();
+  const base = createdAt.toISOString().replace(/[:.]/g, '-');
+  for (let n = 1; ; n++) {
+    const id = n === 1 ? base : `${base}-${n}`;
+    const dir = path.join(root, id);
+    try {
+      await fs.mkdir(dir);
+    } catch (e: any) {
+      if (e?.code === 'EEXIST') continue;
+      throw e;
+    }
+    return { id, dir, manifest: { createdAt: createdAt.toISOString(), cwd, command, items: [] } };
+  }
+}
+
+/**
+ * Move an item (or, with `copy`, a copy of it) into a batch. Returns its
+ * location in the quarantine. The manifest is written by `saveBatch`.
+ */
+export async function quarantinePath(batch: QuarantineBatch, target: string, { copy = false }: { copy?: boolean } = {}): Promise<string> {
+  const originalPath = path.resolve(target);
+  const relative = path.relative(batch.manifest.cwd, originalPath);
+  const inside = relative !== '' && relative !== '..' && !relative.startsWith('..' + path.sep) && !path.isAbsolute(relative);
+  const itemPath = inside ? relative : path.join('external', originalPath.slice(path.parse(originalPath).root.length));
+
+  const destination = await freePath(path.join(batch.dir, itemPath));
+  const size = measureBlastRadius([originalPath], Infinity, Infinity).bytes;
+  await fs.mkdir(path.dirname(destination), { recursive: true });
+
+  if (copy) {
+    await fs.cp(originalPath, destination, { recursive: true, verbatimSymlinks: true });
+  } else {
+    try {
+      await fs.rename(originalPath, destination);
+    } catch (e: any) {
+      if (e?.code !== 'EXDEV') throw e;
+      await fs.cp(originalPath, destination, { recursive: true, verbatimSymlinks: true });
+      await fs.rm(originalPath, { recursive: true, force: true });
+    }
+  }
+
+  batch.manifest.items.push({ originalPath, path: path.relative(batch.dir, destination), size, copy });
+  return destination;
+}
+
+/**
+ * Write the batch's manifest, or remove the batch if nothing went into it.
+ */
+export async function saveBatch(batch: QuarantineBatch): Promise<void> {
+  if (batch.manifest.items.length === 0) {
+    await fs.rm(batch.dir, { recursive: true, force: true });
+    return;
+  }
+  await fs.writeFile(path.join(batch.dir, MANIFEST), JSON.stringify(batch.manifest, null, 2) + '\n', 'utf8');
+}
+
+/**
+ * Batches in the quarantine, newest first. Directories without a readable
+ * manifest are skipped.
+ */
+export async function listBatches(root: string): Promise<QuarantineBatch[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(root);
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return [];
+    throw e;
+  }
+
+  const batches: QuarantineBatch[] = [];
+  for (const id of names) {
+    const dir = path.join(root, id);
+    try {
+      const manifest = JSON.parse(await fs.readFile(path.join(dir, MANIFEST), 'utf8')) as QuarantineManifest;
+      batches.push({ id, dir, manifest });
+    } catch {
+      // Not a batch, or one that is still being written
+    }
+  }
+
+  return batches.sort((a, b) => b.manifest.createdAt.localeCompare(a.manifest.createdAt));
+}
+
+/**
+ * Total size of a batch's items in bytes.
+ */
+export function batchSize(batch: QuarantineBatch): number {
+  return batch.manifest.items.reduce((sum, item) => sum + item.size, 0);
+}
+
+/**
+ * Permanently delete a batch.
+ */
+export async function purgeBatch(batch: QuarantineBatch): Promise<void> {
+  await fs.rm(batch.dir, { recursive: true, force: true });
+}
+
+/**
+ * Drop items that were restored from a batch; the batch goes once empty.
+ */
+export async function removeFromBatch(batch: QuarantineBatch, items: QuarantineItem[]): Promise<void> {
+  batch.manifest.items = batch.manifest.items.filter((item) => !items.includes(item));
+  await saveBatch(batch);
+}
+
+/**
+ * Delete batches older than `maxAgeDays`, then the oldest ones until the
+ * quarantine fits in `maxMegabytes`. Returns the deleted batches.
+ */
+export async function enforceRetention(root: string, policy: RetentionPolicy, now = Date.now()): Promise<QuarantineBatch[]> {
+  const batches = await listBatches(root);
+  const purged: QuarantineBatch[] = [];
+  const maxAgeMs = policy.maxAgeDays * 24 * 60 * 60 * 1000;
+  const maxBytes = policy.maxMegabytes * 1024 * 1024;
+
+  let total = batches.reduce((sum, batch) => sum + batchSize(batch), 0);
+  // Oldest first
+  for (const batch of [...batches].reverse()) {
+    const expired = now - Date.parse(batch.manifest.createdAt) > maxAgeMs;
+    if (!expired && total <= maxBytes) continue;
+    await purgeBatch(batch);
+    total -= batchSize(batch);
+    purged.push(batch);
+  }
+
+  return purged;
+}
+
+// "name 2.txt", "name 3.txt", ... when a command removes the same path twice
+async function freePath(target: string): Promise<string> {
+  const ext = path.extname(target);
+  const stem = ext && ext !== path.basename(target) ? target.slice(0, -ext.length) : target;
+  for (let n = 1; ; n++) {
+    const candidate = n === 1 ? target : `${stem} ${n}${ext}`;
+    try {
+      await fs.lstat(candidate);
+    } catch {
+      return candidate;
+    }
+  }
+}
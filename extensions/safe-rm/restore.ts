@@ -0,0 +1,224 @@
+/**
+ * Restoring trashed files for safe-rm
+ *
+ * safe-rm records every item it sends to the trash in a JSON Lines file
+ * (`trashLogPath`). Restoring matches those records against the trash
+ * itself:
+ *
+ * - FreeDesktop trash: the record names the item under `files/` and its
+ *   `.trashinfo`, which must still be there with the same original path
+ * - macOS: `trash` picks the name inside ~/.Trash itself, so the item is
+ *   looked up by name (Finder appends a time to clashing names), taking the
+ *   one moved closest after the record's time
+ *
+ * Records whose item is no longer in the trash (emptied, restored
+ * elsewhere) are dropped when the list is read.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { decodeTrashPath, type TrashedItem } from './trash';
+
+export interface TrashRecord {
+  timestamp: string;
+  cwd: string;
+  command: string;
+  originalPath: string;
+  /** Item under `<trash>/files/` (FreeDesktop trash); absent for macOS `trash` */
+  trashedPath?: string;
+  infoPath?: string;
+}
+
+export interface RestorableItem {
+  record: TrashRecord;
+  /** Current location of the item in the trash */
+  trashedPath: string;
+  infoPath: string | null;
+}
+
+export type ConflictResolution = 'keep-both' | 'replace' | 'skip';
+
+// Finder-style clash names may be found up to this long after the record
+const MAC_MATCH_WINDOW_MS = 60_000;
+
+/**
+ * Append records for items just moved to the trash.
+ */
+export async function appendTrashRecords(logPath: string, records: TrashRecord[]): Promise<void> {
+  if (records.length === 0) return;
+  await fs.mkdir(path.dirname(logPath), { recursive: true });
+  await fs.appendFile(logPath, records.map((r) => JSON.stringify(r) + '\n').join(''), 'utf8');
+}
+
+/**
+ * Build a record for an item trashed by the FreeDesktop implementation.
+ */
+export function recordFromTrashedItem(item: TrashedItem, cwd: string, command: string): TrashRecord {
+  return {
+    timestamp: item.deletedAt.toISOString(),
+    cwd,
+    command,
+    originalPath: item.originalPath,
+    trashedPath: item.trashedPath,
+    infoPath: item.infoPath,
+  };
+}
+
+/**
+ * Items safe-rm trashed that are still in the trash, newest first. Stale
+ * records are pruned from the log.
+ */
+export async function listRestorable(logPath: string): Promise<RestorableItem[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(logPath, 'utf8');
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return [];
+    throw e;
+  }
+
+  const records: TrashRecord[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      // Skip lines that were cut off or edited by hand
+    }
+  }
+
+  const items: RestorableItem[] = [];
+  const claimed = new Set<string>();
+  // Newest first, so a later record claims a Finder clash name before an older one
+  for (const record of [...records].reverse()) {
+    const item = record.trashedPath ? await resolveFreeDesktop(record) : await resolveMacTrash(record, claimed);
+    if (!item) continue;
+    claimed.add(item.trashedPath);
+    items.push(item);
+  }
+
+  if (items.length !== records.length) {
+    await writeRecords(logPath, [...items].reverse().map((i) => i.record));
+  }
+  return items;
+}
+
+/**
+ * Move an item back to its original path. With a conflict, `resolution`
+ * decides: restore next to the existing file, replace it (the existing one
+ * goes to the trash via `trashExisting`), or skip. Returns the path the item
+ * was restored to, or null when skipped.
+ */
+export async function restoreItem(
+  item: RestorableItem,
+  resolution: ConflictResolution,
+  trashExisting: (p: string) => Promise<void>
+): Promise<string | null> {
+  let target = item.record.originalPath;
+
+  if (await exists(target)) {
+    if (resolution === 'skip') return null;
+    if (resolution === 'replace') {
+      await trashExisting(target);
+    } else {
+      target = await freeSiblingName(target);
+    }
+  }
+
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  try {
+    await fs.rename(item.trashedPath, target);
+  } catch (e: any) {
+    if (e?.code !== 'EXDEV') throw e;
+    await fs.cp(item.trashedPath, target, { recursive: true, verbatimSymlinks: true });
+    await fs.rm(item.trashedPath, { recursive: true, force: true });
+  }
+  if (item.infoPath) await fs.rm(item.infoPath, { force: true });
+
+  return target;
+}
+
+/**
+ * True if something (file, directory or symlink) exists at `p`.
+ */
+export async function exists(p: string): Promise<boolean> {
+  try {
+    await fs.lstat(p);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function resolveFreeDesktop(record: TrashRecord): Promise<RestorableItem | null> {
+  if (!record.trashedPath || !record.infoPath) return null;
+  if (!(await exists(record.trashedPath))) return null;
+
+  // The info file must still describe this item (names are reused once freed)
+  try {
+    const info = await fs.readFile(record.infoPath, 'utf8');
+    const value = info.match(/^Path=(.*)$/m)?.[1];
+    if (!value) return null;
+    const original = decodeTrashPath(value);
+    // Per-mount trashes store paths relative to the mount
+    if (path.isAbsolute(original) ? original !== record.originalPath : !record.originalPath.endsWith(path.sep + original)) {
+      return null;
+    }
+  } catch {
+    return null;
+  }
+
+  return { record, trashedPath: record.trashedPath, infoPath: record.infoPath };
+}
+
+async function resolveMacTrash(record: TrashRecord, claimed: Set<string>): Promise<RestorableItem | null> {
+  const trashDir = path.join(os.homedir(), '.Trash');
+  const base = path.basename(record.originalPath);
+  const ext = path.extname(base);
+  const stem = ext && ext !== base ? base.slice(0, -ext.length) : base;
+
+  let names: string[];
+  try {
+    names = await fs.readdir(trashDir);
+  } catch {
+    return null;
+  }
+
+  const recordTime = Date.parse(record.timestamp);
+  let best: { trashedPath: string; delta: number } | null = null;
+  for (const name of names) {
+    if (name !== base && !(name.startsWith(stem + ' ') && name.endsWith(ext))) continue;
+    const trashedPath = path.join(trashDir, name);
+    if (claimed.has(trashedPath)) continue;
+    try {
+      // ctime changes when the item is moved into the trash
+      const delta = (await fs.lstat(trashedPath)).ctimeMs - recordTime;
+      if (delta < -1000 || delta > MAC_MATCH_WINDOW_MS) continue;
+      if (!best || delta < best.delta) best = { trashedPath, delta };
+    } catch {
+      // Vanished while looking
+    }
+  }
+
+  return best ? { record, trashedPath: best.trashedPath, infoPath: null } : null;
+}
+
+// "name (restored).txt", "name (restored 2).txt", ...
+async function freeSiblingName(target: string): Promise<string> {
+  const dir = path.dirname(target);
+  const base = path.basename(target);
+  const ext = path.extname(base);
+  const stem = ext && ext !== base ? base.slice(0, -ext.length) : base;
+
+  for (let n = 1; ; n++) {
+    const candidate = path.join(dir, `${stem} (restored${n === 1 ? '' : ` ${n}`})${ext}`);
+    if (!(await exists(candidate))) return candidate;
+  }
+}
+
+async function writeRecords(logPath: string, records: TrashRecord[]): Promise<void> {
+  const tmp = `${logPath}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, records.map((r) => JSON.stringify(r) + '\n').join(''), 'utf8');
+  await fs.rename(tmp, logPath);
+}
@@ -0,0 +1,157 @@
+/**
+ * The files a destructive command touches, for safe-rm
+ *
+ * Worked out from the command's words as written (quotes, `~`, braces and
+ * globs included), so the same words give the files both when safe-rm
+ * checks a command before it runs and when helper.ts moves them once the
+ * shell gets there: a glob matches what exists at that moment.
+ */
+
+import * as child_process from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { expandWord } from './expand';
+import { gitStates } from './git';
+import type { FindInvocation } from './parse';
+
+/** An argument as the command would see it, and the file it names */
+export type TrashTarget = { arg: string; absolute: string };
+
+/**
+ * How a command's words name the files it destroys:
+ * - "operands": rm-style operands
+ * - "find": find arguments that print the matches (see findListingWords);
+ *   matches under `skipDir` (the quarantine) are left out, and with
+ *   `recursive` items inside another match go with it
+ * - "overwrite": files about to be overwritten; only existing, non-empty
+ *   ones count, or for git rm (`pathspecs`) the tracked files they match
+ */
+export type TargetSource =
+  | { kind: 'operands' }
+  | { kind: 'find'; skipDir: string; recursive: boolean }
+  | { kind: 'overwrite'; pathspecs: boolean; force: boolean };
+
+/**
+ * The targets `words` name when run in `cwd`, or null when a word can't be
+ * expanded (variables, command substitution) or find can't run.
+ */
+export function resolveTargets(source: TargetSource, words: string[], cwd: string): TrashTarget[] | null {
+  const args: string[] = [];
+  for (const word of words) {
+    const expanded = expandWord(word, cwd);
+    if (!expanded) return null;
+    args.push(...expanded);
+  }
+
+  switch (source.kind) {
+    case 'operands':
+      return args.map((arg) => ({ arg, absolute: resolveTarget(arg, cwd) }));
+    case 'find': {
+      const matches = listFindMatches(args, cwd, source.skipDir);
+      return matches && orderForRemoval(matches, source.recursive);
+    }
+    case 'overwrite':
+      return resolveOverwrites(args, cwd, source.pathspecs, source.force);
+  }
+}
+
+/**
+ * The words of a find command that list what it would remove: its removing
+ * actions replaced by -print0 and its own output turned off.
+ */
+export function findListingWords(command: string, segment: FindInvocation): string[] {
+  const execStarts = new Map(segment.rmExecs.map((exec) => [exec.words[0], exec]));
+  const words: string[] = [];
+
+  for (let i = 0; i < segment.args.length; i++) {
+    const word = segment.args[i];
+    const exec = execStarts.get(word);
+    if (exec) {
+      words.push('-print0');
+      i += exec.words.length - 1;
+    } else if (segment.deletes.includes(word)) {
+      words.push('-print0');
+    } else if (['-print', '-print0', '-ls'].includes(word.value)) {
+      words.push('-true');
+    } else if (word.value === '-printf') {
+      words.push('-true');
+      i++;
+    } else {
+      words.push(command.slice(word.start, word.end));
+    }
+  }
+
+  return words;
+}
+
+/**
+ * Absolute path of an (expanded) argument.
+ */
+export function resolveTarget(file: string, cwd: string): string {
+  return path.resolve(cwd, file);
+}
+
+// Run find with listing arguments; null if it can't run
+function listFindMatches(args: string[], cwd: string, skipDir: string): TrashTarget[] | null {
+  const result = child_process.spawnSync('find', args, { cwd, encoding: 'utf8', timeout: 30_000, maxBuffer: 64 * 1024 * 1024 });
+  if (result.error) return null;
+  return result.stdout.split('\0')
+    .filter((arg) => arg && path.basename(arg) !== '.' && path.basename(arg) !== '..')
+    .map((arg) => ({ arg, absolute: resolveTarget(arg, cwd) }))
+    .filter((t) => t.absolute !== skipDir && !t.absolute.startsWith(skipDir + path.sep));
+}
+
+// Contents before their directories, the way find -delete works; with
+// recursive removal, items inside another target go with it
+function orderForRemoval(targets: TrashTarget[], recursive: boolean): TrashTarget[] {
+  const depth = (t: TrashTarget) => t.absolute.split(path.sep).length;
+  const sorted = [...targets].sort((a, b) => depth(b) - depth(a));
+  if (!recursive) return sorted;
+  const all = new Set(targets.map((t) => t.absolute));
+  return sorted.filter((t) => {
+    for (let dir = path.dirname(t.absolute); dir !== path.dirname(dir); dir = path.dirname(dir)) {
+      if (all.has(dir)) return false;
+    }
+    return true;
+  });
+}
+
+// Files an overwriting command would destroy: existing, non-empty files
+// for truncate and `>`, and what git would remove for `git rm` pathspecs
+function resolveOverwrites(args: string[], cwd: string, pathspecs: boolean, force: boolean): TrashTarget[] {
+  const targets: TrashTarget[] = [];
+
+  for (const arg of args) {
+    const absolute = resolveTarget(arg, cwd);
+    let stat: fs.Stats | null = null;
+    try {
+      stat = fs.statSync(absolute);
+    } catch {
+      // Missing; for git rm possibly a pathspec pattern
+    }
+
+    if (pathspecs) {
+      if (stat) targets.push({ arg, absolute });
+      else targets.push(...trackedFiles(arg, cwd));
+    } else if (stat?.isFile() && stat.size > 0) {
+      targets.push({ arg, absolute });
+    }
+  }
+
+  // Without -f git refuses to remove files with staged or unstaged changes
+  if (pathspecs && !force) {
+    const states = gitStates(targets.map((t) => t.absolute));
+    return targets.filter((t) => states.get(t.absolute) !== 'modified');
+  }
+
+  return targets;
+}
+
+// Files in the working tree matching a git pathspec (e.g. '*.log')
+function trackedFiles(pathspec: string, cwd: string): TrashTarget[] {
+  const result = child_process.spawnSync('git', ['ls-files', '-z', '--', pathspec], { cwd, encoding: 'utf8', timeout: 10_000 });
+  if (result.status !== 0) return [];
+  return result.stdout.split('\0').filter(Boolean)
+    .map((arg) => ({ arg, absolute: resolveTarget(arg, cwd) }))
+    .filter((t) => fs.existsSync(t.absolute));
+}
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { tmpdir } from 'node:os';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { recordTrashed, runDeferredStep, type DeferredAction, type DeferredStep } from '../../bin';
+import type { TargetSource } from '../../targets';
+
+const RM: DeferredAction = { action: 'remove', tool: 'rm', flags: { force: false, recursive: false, emptyDirs: false, dirsOnly: false } };
+
+describe('runDeferredStep', () => {
+  let project: string;
+  let root: string;
+
+  beforeEach(() => {
+    project = mkdtempSync(join(tmpdir(), 'safe-rm-bin-'));
+    root = join(project, '.pi', 'quarantine');
+  });
+
+  afterEach(() => {
+    rmSync(project, { recursive: true, force: true });
+  });
+
+  function step(action: DeferredAction, words: string[], source: TargetSource = { kind: 'operands' }): DeferredStep {
+    return {
+      ...action,
+      words,
+      source,
+      bin: { kind: 'quarantine', root },
+      origin: { cwd: project, command: 'test' },
+      protection: {
+        rules: { home: true, repoRoot: true, gitDir: true, outsideCwd: true },
+        protectedPaths: [root],
+        allowedOutsideCwd: [],
+      },
+      resultPath: join(project, 'results.jsonl'),
+    };
+  }
+
+  it('expands globs against the files that exist when it runs', async () => {
+    // `touch a.tmp b.tmp && rm *.tmp`: nothing matched when the command was checked
+    const removal = step(RM, ['*.tmp']);
+    writeFileSync(join(project, 'a.tmp'), 'a');
+    writeFileSync(join(project, 'b.tmp'), 'b');
+
+    const report = await runDeferredStep(removal, project);
+
+    expect(report.moved).toBe(2);
+    expect(report.errors).toEqual([]);
+    expect(existsSync(join(project, 'a.tmp'))).toBe(false);
+    expect(existsSync(join(project, 'b.tmp'))).toBe(false);
+    expect(report.logged.map((f) => f.status)).toEqual(['quarantined', 'quarantined']);
+  });
+
+  it('passes a glob without matches on to rm as is', async () => {
+    expect((await runDeferredStep(step(RM, ['*.o']), project)).errors).toEqual([
+      "rm: cannot remove '*.o': No such file or directory",
+    ]);
+
+    const force: DeferredAction = { ...RM, flags: { ...RM.flags, force: true } } as DeferredAction;
+    expect((await runDeferredStep(step(force, ['*.o']), project)).errors).toEqual([]);
+  });
+
+  it('works out the directory from where the shell is', async () => {
+    mkdirSync(join(project, 'build'));
+    writeFileSync(join(project, 'build', 'out.o'), 'o');
+
+    const report = await runDeferredStep(step(RM, ['*.o']), join(project, 'build'));
+    expect(report.lines).toEqual([expect.stringMatching(/^safe-rm: moved 'out\.o' to /)]);
+  });
+
+  it('leaves protected paths a glob matches in place', async () => {
+    mkdirSync(root, { recursive: true });
+    const recursive: DeferredAction = { ...RM, flags: { ...RM.flags, recursive: true } } as DeferredAction;
+
+    const report = await runDeferredStep(step(recursive, ['.p*']), project);
+
+    expect(report.moved).toBe(0);
+    expect(report.errors).toEqual([expect.stringMatching(/^safe-rm: refusing to remove '\.pi' \(listed in protectedPaths/)]);
+    expect(existsSync(root)).toBe(true);
+  });
+
+  it('lists find matches when it runs', async () => {
+    const find: DeferredAction = { action: 'remove', tool: 'find', flags: { force: true, recursive: false, emptyDirs: true, dirsOnly: false } };
+    const removal = step(find, ['.', '-name', "'*.o'", '-print0'], { kind: 'find', skipDir: root, recursive: false });
+    writeFileSync(join(project, 'x.o'), 'x');
+
+    const report = await runDeferredStep(removal, project);
+    expect(report.moved).toBe(1);
+    expect(existsSync(join(project, 'x.o'))).toBe(false);
+  });
+
+  it('copies files that are about to be overwritten and leaves them in place', async () => {
+    writeFileSync(join(project, 'out.txt'), 'before');
+
+    const report = await runDeferredStep(step({ action: 'copy' }, ['out.txt'], { kind: 'overwrite', pathspecs: false, force: false }), project);
+
+    expect(report.lines).toEqual([]);
+    expect(report.errors).toEqual([]);
+    expect(report.logged).toEqual([expect.objectContaining({ status: 'copied' })]);
+    expect(readFileSync(join(project, 'out.txt'), 'utf8')).toBe('before');
+    expect(readFileSync(report.logged[0].destination!, 'utf8')).toBe('before');
+  });
+});
+
+describe('recordTrashed', () => {
+  it('returns a warning instead of failing when the trash log cannot be written', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'safe-rm-bin-'));
+    try {
+      writeFileSync(join(dir, 'file'), '');
+      const record = { timestamp: '2025-01-01T00:00:00.000Z', cwd: dir, command: 'rm a', originalPath: join(dir, 'a') };
+
+      expect(await recordTrashed(join(dir, 'trash.jsonl'), [record])).toBeNull();
+      expect(await recordTrashed(join(dir, 'file', 'trash.jsonl'), [record])).toMatch(
+        /^safe-rm: could not record trashed items for \/saferm-restore in .*trash\.jsonl: /
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
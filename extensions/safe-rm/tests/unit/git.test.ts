@@ -0,0 +1,61 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { tmpdir } from 'node:os';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { findRepoRoot, gitStates } from '../../git';
+
+describe('gitStates', () => {
+  let repo: string;
+  const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=t', '-c', 'user.email=t@t', ...args], { cwd: repo });
+  const state = (...parts: string[]) => gitStates([join(repo, ...parts)]).get(join(repo, ...parts));
+
+  beforeAll(() => {
+    repo = mkdtempSync(join(tmpdir(), 'safe-rm-git-'));
+    git('init', '-q');
+    mkdirSync(join(repo, 'src'));
+    mkdirSync(join(repo, 'docs'));
+    mkdirSync(join(repo, 'build'));
+    mkdirSync(join(repo, 'empty'));
+    writeFileSync(join(repo, '.gitignore'), 'build/\n*.log\n');
+    writeFileSync(join(repo, 'src', 'clean.ts'), 'clean');
+    writeFileSync(join(repo, 'src', 'changed.ts'), 'before');
+    writeFileSync(join(repo, 'docs', 'guide.md'), 'guide');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'init');
+
+    writeFileSync(join(repo, 'src', 'changed.ts'), 'after');
+    writeFileSync(join(repo, 'src', 'new file.ts'), 'new');
+    writeFileSync(join(repo, 'build', 'out.js'), 'out');
+    writeFileSync(join(repo, 'debug.log'), 'log');
+  });
+
+  afterAll(() => {
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('reports the state of files', () => {
+    expect(state('src', 'clean.ts')).toBe('clean');
+    expect(state('src', 'changed.ts')).toBe('modified');
+    expect(state('src', 'new file.ts')).toBe('untracked');
+    expect(state('debug.log')).toBe('ignored');
+    expect(state('build', 'out.js')).toBe('ignored');
+  });
+
+  it('gives directories the state of their contents', () => {
+    expect(state('src')).toBe('modified');
+    expect(state('docs')).toBe('clean');
+    expect(state('build')).toBe('ignored');
+    expect(state('empty')).toBe('untracked');
+  });
+
+  it('answers for several targets at once, with null outside a repository', () => {
+    const targets = [join(repo, 'docs'), join(repo, 'src', 'new file.ts'), join(tmpdir(), 'not-in-a-repo.txt')];
+    const states = gitStates(targets);
+    expect(targets.map((t) => states.get(t))).toEqual(['clean', 'untracked', null]);
+  });
+
+  it('finds the repository root', () => {
+    expect(findRepoRoot(join(repo, 'src'))).toBe(repo);
+  });
+});
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { tmpdir } from 'node:os';
+import { existsSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { appendLogEntry, clearLog, filterLogEntries, readLog, type LogEntry } from '../../log';
+
+function entry(command: string, overrides: Partial<LogEntry> = {}): LogEntry {
+  return {
+    timestamp: '2025-01-01T12:00:00.000Z',
+    sessionId: null,
+    cwd: '/work',
+    command,
+    rewrittenCommand: null,
+    outcome: 'rewritten',
+    mode: 'trash',
+    files: [{ path: `/work/${command.split(' ').pop()}`, size: 1, status: 'trashed' }],
+    ...overrides,
+  };
+}
+
+describe('log', () => {
+  let dir: string;
+  let logPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'safe-rm-log-'));
+    logPath = join(dir, 'nested', 'log.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const commands = (entries: LogEntry[]) => entries.map((e) => e.command);
+
+  it('appends one JSON line per entry', async () => {
+    const rotation = { maxBytes: 1024 * 1024, maxFiles: 3 };
+    await appendLogEntry(logPath, entry('rm a'), rotation);
+    await appendLogEntry(logPath, entry('rm b'), rotation);
+
+    expect(readFileSync(logPath, 'utf8').trim().split('\n').map((line) => JSON.parse(line).command)).toEqual(['rm a', 'rm b']);
+    expect(commands(await readLog(logPath, rotation))).toEqual(['rm a', 'rm b']);
+  });
+
+  it('rotates once the log reaches maxBytes', async () => {
+    const size = JSON.stringify(entry('rm a')).length + 1;
+    const rotation = { maxBytes: size * 2, maxFiles: 3 };
+    for (const name of ['a', 'b', 'c', 'd', 'e']) await appendLogEntry(logPath, entry(`rm ${name}`), rotation);
+
+    expect(statSync(logPath).size).toBe(size);
+    expect(commands(await readLog(`${logPath}.1`, { maxBytes: 0, maxFiles: 0 }))).toEqual(['rm c', 'rm d']);
+    expect(commands(await readLog(`${logPath}.2`, { maxBytes: 0, maxFiles: 0 }))).toEqual(['rm a', 'rm b']);
+    // Oldest first across the rotated files
+    expect(commands(await readLog(logPath, rotation))).toEqual(['rm a', 'rm b', 'rm c', 'rm d', 'rm e']);
+  });
+
+  it('keeps at most maxFiles rotated files', async () => {
+    const rotation = { maxBytes: 1, maxFiles: 2 };
+    for (const name of ['a', 'b', 'c', 'd']) await appendLogEntry(logPath, entry(`rm ${name}`), rotation);
+
+    expect(existsSync(`${logPath}.3`)).toBe(false);
+    expect(commands(await readLog(logPath, rotation))).toEqual(['rm b', 'rm c', 'rm d']);
+  });
+
+  it('starts over without rotated files when maxFiles is 0', async () => {
+    const rotation = { maxBytes: 1, maxFiles: 0 };
+    await appendLogEntry(logPath, entry('rm a'), rotation);
+    await appendLogEntry(logPath, entry('rm b'), rotation);
+
+    expect(existsSync(`${logPath}.1`)).toBe(false);
+    expect(commands(await readLog(logPath, rotation))).toEqual(['rm b']);
+  });
+
+  it('skips lines that are not log entries', async () => {
+    const rotation = { maxBytes: 1024, maxFiles: 1 };
+    await appendLogEntry(logPath, entry('rm a'), rotation);
+    writeFileSync(logPath, readFileSync(logPath, 'utf8') + '2024-01-01 rm old (plain text)\n{"timestamp":"x"}\n{"comm');
+
+    expect(commands(await readLog(logPath, rotation))).toEqual(['rm a']);
+  });
+
+  it('removes the log and its rotated files', async () => {
+    const rotation = { maxBytes: 1, maxFiles: 3 };
+    for (const name of ['a', 'b', 'c']) await appendLogEntry(logPath, entry(`rm ${name}`), rotation);
+
+    expect(await clearLog(logPath, rotation)).toBe(3);
+    expect(await readLog(logPath, rotation)).toEqual([]);
+  });
+});
+
+describe('filterLogEntries', () => {
+  const entries = [
+    entry('rm -r build', { timestamp: '2025-01-01T00:00:00.000Z' }),
+    entry('rm .env', { timestamp: '2025-01-03T00:00:00.000Z', outcome: 'blocked', files: [{ path: '/work/.env', size: 1, status: 'skipped' }] }),
+    entry('git rm notes.md', { timestamp: '2025-01-05T00:00:00.000Z', files: [{ path: '/work/notes.md', size: 1, status: 'copied' }] }),
+  ];
+
+  it.each([
+    [{ outcome: 'blocked' }, ['rm .env']],
+    [{ status: 'copied' }, ['git rm notes.md']],
+    [{ search: 'BUILD' }, ['rm -r build']],
+    [{ search: 'notes.md' }, ['git rm notes.md']],
+    [{ since: new Date('2025-01-03T00:00:00.000Z') }, ['rm .env', 'git rm notes.md']],
+    [{ outcome: 'rewritten', since: new Date('2025-01-02T00:00:00.000Z') }, ['git rm notes.md']],
+  ] as const)('%o', (filter, expected) => {
+    expect(filterLogEntries(entries, filter).map((e) => e.command)).toEqual(expected);
+  });
+});
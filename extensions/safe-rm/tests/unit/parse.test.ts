@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { applyReplacements, findRmSegments, parseRmFlags, rewriteRange, wrapRange, type Detectors, type RmInvocation } from '../../parse';
+
+const DETECTORS: Detectors = {
+  find: true,
+  gitRm: true,
+  unlink: true,
+  rmdir: true,
+  shred: true,
+  truncate: true,
+  redirect: true,
+  mvToDevNull: true,
+};
+
+function rmSegments(command: string): RmInvocation[] {
+  return findRmSegments(command, '/work', DETECTORS).filter((s): s is RmInvocation => s.kind === 'rm');
+}
+
+// Replace every rm segment with `echo trashed` and return the new command
+function rewriteRm(command: string): string {
+  return applyReplacements(command, rmSegments(command).map((s) => ({ ...rewriteRange(s.command), text: 'echo trashed' })));
+}
+
+// Tool, options and operands of each rm-like segment, other segments by kind
+function segments(command: string) {
+  return findRmSegments(command, '/work', DETECTORS).map((s) =>
+    s.kind === 'rm'
+      ? { tool: s.tool, options: s.options.map((w) => w.value), operands: s.operands.map((w) => w.value), cwd: s.cwd }
+      : s.kind
+  );
+}
+
+describe('findRmSegments', () => {
+  it('unquotes operands', () => {
+    expect(segments(`rm 'a b' "c d" e\\ f`)).toEqual([{ tool: 'rm', options: [], operands: ['a b', 'c d', 'e f'], cwd: '/work' }]);
+  });
+
+  it('treats everything after -- as operands', () => {
+    expect(segments('rm -- -f')).toEqual([{ tool: 'rm', options: ['--'], operands: ['-f'], cwd: '/work' }]);
+    expect(segments('rm -rf -- a -b')).toEqual([{ tool: 'rm', options: ['-rf', '--'], operands: ['a', '-b'], cwd: '/work' }]);
+    expect(segments('rm ./-- x')).toEqual([{ tool: 'rm', options: [], operands: ['./--', 'x'], cwd: '/work' }]);
+  });
+
+  it('ignores rm in arguments and quotes', () => {
+    expect(segments('echo rm a')).toEqual([]);
+    expect(segments(`git commit -m "rm -rf build"`)).toEqual([]);
+  });
+
+  it('sees through wrappers and alternative command words', () => {
+    const rm = { tool: 'rm', options: ['-rf'], operands: ['/tmp/x'], cwd: '/work' };
+    expect(segments('sudo -u root rm -rf /tmp/x')).toEqual([rm]);
+    expect(segments('env -u HOME A=1 rm -rf /tmp/x')).toEqual([rm]);
+    expect(segments('command rm -rf /tmp/x')).toEqual([rm]);
+    expect(segments('\\rm -rf /tmp/x')).toEqual([rm]);
+    expect(segments('/bin/rm -rf /tmp/x')).toEqual([rm]);
+  });
+
+  it('marks rm behind xargs as reading its operands from stdin', () => {
+    const [segment] = rmSegments('find . -name "*.o" | xargs -0 rm -f');
+    expect(segment).toMatchObject({ kind: 'rm', fromXargs: true });
+    expect(segment.operands).toEqual([]);
+  });
+
+  it('finds every removal in compound and conditional commands', () => {
+    const operands = rmSegments('rm a || rm b; if true; then rm c; elif x; then rm d; else rm e; fi').map((s) => s.operands.map((w) => w.value));
+    expect(operands).toEqual([['a'], ['b'], ['c'], ['d'], ['e']]);
+  });
+
+  it('follows cd, within subshells only', () => {
+    expect(rmSegments('(cd sub; rm a); rm b').map((s) => s.cwd)).toEqual(['/work/sub', '/work']);
+    expect(rmSegments('cd $DIR && rm a').map((s) => s.cwd)).toEqual([null]);
+  });
+
+  it('reports sh -c scripts that contain rm', () => {
+    expect(segments("bash -c 'rm a'")).toEqual(['nested']);
+    expect(segments("bash -c 'ls'")).toEqual([]);
+  });
+
+  it('reports other removals by kind', () => {
+    expect(segments("find . -name '*.o' -delete")).toEqual(['find']);
+    expect(segments('echo x > f')).toEqual(['overwrite']);
+    expect(segments('truncate -s 0 f')).toEqual(['overwrite']);
+    expect(segments('mv a /dev/null')).toEqual([{ tool: 'mv', options: [], operands: ['a'], cwd: '/work' }]);
+  });
+});
+
+describe('parseRmFlags', () => {
+  it('reads combined and long options', () => {
+    expect(parseRmFlags(['-rf'])).toEqual({ force: true, recursive: true, emptyDirs: false, dirsOnly: false });
+    expect(parseRmFlags(['--recursive', '--force'])).toMatchObject({ force: true, recursive: true });
+    expect(parseRmFlags(['-d', '--'])).toEqual({ force: false, recursive: false, emptyDirs: true, dirsOnly: false });
+  });
+});
+
+describe('rewriteRange', () => {
+  it('covers the whole simple command', () => {
+    expect(rewriteRm('rm -rf build')).toBe('echo trashed');
+    expect(rewriteRm('cd src && rm a.txt; ls')).toBe('cd src && echo trashed; ls');
+  });
+
+  it('includes wrappers and assignments', () => {
+    expect(rewriteRm('sudo rm -f a.txt')).toBe('echo trashed');
+    expect(rewriteRm('LC_ALL=C env -u HOME rm a.txt')).toBe('echo trashed');
+  });
+
+  it('keeps trailing redirections', () => {
+    expect(rewriteRm('rm -v a.txt > out.log 2>&1')).toBe('echo trashed > out.log 2>&1');
+  });
+
+  it('keeps the reserved words of if statements', () => {
+    expect(rewriteRm('if [ -e a.txt ]; then rm a.txt; fi')).toBe('if [ -e a.txt ]; then echo trashed; fi');
+    expect(rewriteRm('if false; then :; else rm a.txt; fi')).toBe('if false; then :; else echo trashed; fi');
+  });
+
+  it('keeps the reserved words of loops', () => {
+    expect(rewriteRm('for f in *.o; do rm "$f"; done')).toBe('for f in *.o; do echo trashed; done');
+    expect(rewriteRm('while rm a.txt; do :; done')).toBe('while echo trashed; do :; done');
+    expect(rewriteRm('until ! rm a.txt; do :; done')).toBe('until ! echo trashed; do :; done');
+  });
+
+  it('keeps groups and negation', () => {
+    expect(rewriteRm('{ rm a.txt; }')).toBe('{ echo trashed; }');
+    expect(rewriteRm('! rm a.txt')).toBe('! echo trashed');
+    expect(rewriteRm('(cd build && rm -r out)')).toBe('(cd build && echo trashed)');
+  });
+});
+
+describe('wrapRange', () => {
+  // Wrap each overwrite segment in a group that runs `copy` first
+  const wrap = (command: string) =>
+    applyReplacements(
+      command,
+      findRmSegments(command, '/work', DETECTORS)
+        .filter((s) => s.kind === 'overwrite')
+        .map((s) => {
+          const range = wrapRange(s.command);
+          return { ...range, text: `{ copy; ${command.slice(range.start, range.end)}; }` };
+        })
+    );
+
+  it('includes the redirections', () => {
+    expect(wrap('echo x > out.txt')).toBe('{ copy; echo x > out.txt; }');
+    expect(wrap('> out.txt echo x')).toBe('{ copy; > out.txt echo x; }');
+    expect(wrap('> out.txt')).toBe('{ copy; > out.txt; }');
+  });
+
+  it('keeps reserved words and the rest of the line', () => {
+    expect(wrap('make && if true; then echo x > out.txt; fi')).toBe('make && if true; then { copy; echo x > out.txt; }; fi');
+    expect(wrap('ls | truncate -s 0 log.txt; ls')).toBe('ls | { copy; truncate -s 0 log.txt; }; ls');
+  });
+});
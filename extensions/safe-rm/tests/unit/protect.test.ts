@@ -0,0 +1,130 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { homedir, tmpdir } from 'node:os';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { expandWord } from '../../expand';
+import { formatBytes, measureBlastRadius, protectedReason, type ProtectionConfig } from '../../protect';
+
+const CONFIG: ProtectionConfig = {
+  rules: { home: true, repoRoot: true, gitDir: true, outsideCwd: true },
+  protectedPaths: ['~/Documents', 'fixtures'],
+  allowedOutsideCwd: ['/var/tmp/scratch'],
+};
+
+describe('protectedReason', () => {
+  let project: string;
+
+  beforeAll(() => {
+    project = mkdtempSync(join(tmpdir(), 'safe-rm-protect-'));
+    mkdirSync(join(project, 'fixtures'));
+    mkdirSync(join(project, 'vendor', 'lib', '.git'), { recursive: true });
+    writeFileSync(join(project, 'fixtures', 'data.json'), '{}');
+  });
+
+  afterAll(() => {
+    rmSync(project, { recursive: true, force: true });
+  });
+
+  it.each([
+    ['/', 'the filesystem root'],
+    [homedir(), 'the home directory'],
+  ])('refuses %s', (target, reason) => {
+    expect(protectedReason(target, project, CONFIG)).toBe(reason);
+  });
+
+  it('refuses directories that contain the home directory', () => {
+    if (dirname(homedir()) === '/') return;
+    expect(protectedReason(dirname(homedir()), project, CONFIG)).toBe('contains the home directory');
+  });
+
+  it('refuses .git directories and repository roots', () => {
+    expect(protectedReason(join(project, 'vendor', 'lib', '.git'), project, CONFIG)).toBe('a .git directory');
+    expect(protectedReason(join(project, 'vendor', 'lib', '.git', 'config'), project, CONFIG)).toBe('a .git directory');
+    expect(protectedReason(join(project, 'vendor', 'lib'), project, CONFIG)).toBe('a repository root');
+  });
+
+  it('refuses directories that contain the repository the project is in', () => {
+    const cwd = join(project, 'vendor', 'lib', 'src');
+    expect(protectedReason(join(project, 'vendor'), cwd, { ...CONFIG, rules: { ...CONFIG.rules, outsideCwd: false } })).toBe(
+      'contains the repository'
+    );
+  });
+
+  it('expands ~ in protectedPaths', () => {
+    const config = { ...CONFIG, rules: { ...CONFIG.rules, outsideCwd: false } };
+    expect(protectedReason(join(homedir(), 'Documents', 'taxes.pdf'), project, config)).toBe('listed in protectedPaths as ~/Documents');
+    expect(protectedReason(join(homedir(), 'Downloads'), project, config)).toBeNull();
+  });
+
+  it('resolves other protectedPaths against the project, protecting their contents and parents', () => {
+    expect(protectedReason(join(project, 'fixtures'), project, CONFIG)).toBe('listed in protectedPaths as fixtures');
+    expect(protectedReason(join(project, 'fixtures', 'data.json'), project, CONFIG)).toBe('listed in protectedPaths as fixtures');
+    expect(protectedReason(join(project, 'src'), project, CONFIG)).toBeNull();
+  });
+
+  it('catches protected paths a glob expands to', () => {
+    const reasons = expandWord('fix*/*.json', project)!.map((p) => protectedReason(resolve(project, p), project, CONFIG));
+    expect(reasons).toEqual(['listed in protectedPaths as fixtures']);
+    expect(expandWord('~/Doc*', project)!.every((p) => protectedReason(p, project, CONFIG) !== null)).toBe(true);
+  });
+
+  it('refuses the project directory and anything outside it', () => {
+    expect(protectedReason(project, project, { ...CONFIG, protectedPaths: [] })).toBe('the project directory');
+    expect(protectedReason('/etc/hosts', project, CONFIG)).toBe('outside the project directory');
+    expect(protectedReason('/var/tmp/scratch/out', project, CONFIG)).toBeNull();
+  });
+
+  it('lets overwrites touch files outside the project', () => {
+    expect(protectedReason('/etc/hosts', project, CONFIG, false)).toBeNull();
+  });
+
+  it('skips rules that are turned off', () => {
+    const config: ProtectionConfig = {
+      rules: { home: false, repoRoot: false, gitDir: false, outsideCwd: false },
+      protectedPaths: [],
+      allowedOutsideCwd: [],
+    };
+    expect(protectedReason(join(project, 'vendor', 'lib'), project, config)).toBeNull();
+    expect(protectedReason('/etc/hosts', project, config)).toBeNull();
+    expect(protectedReason('/', project, config)).toBe('the filesystem root');
+  });
+});
+
+describe('measureBlastRadius', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'safe-rm-radius-'));
+    mkdirSync(join(dir, 'a', 'b'), { recursive: true });
+    writeFileSync(join(dir, 'a', 'one'), 'x'.repeat(100));
+    writeFileSync(join(dir, 'a', 'b', 'two'), 'x'.repeat(50));
+    writeFileSync(join(dir, 'three'), 'x'.repeat(10));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('counts files and bytes under the targets', () => {
+    expect(measureBlastRadius([join(dir, 'a'), join(dir, 'three'), join(dir, 'missing')], Infinity, Infinity)).toEqual({
+      files: 3,
+      bytes: 160,
+      truncated: false,
+    });
+  });
+
+  it('stops once a limit is passed', () => {
+    expect(measureBlastRadius([dir], 1, Infinity).truncated).toBe(true);
+    expect(measureBlastRadius([dir], Infinity, 20).truncated).toBe(true);
+  });
+});
+
+describe('formatBytes', () => {
+  it.each([
+    [512, '512 B'],
+    [1536, '1.5 KB'],
+    [5 * 1024 * 1024 * 1024, '5.0 GB'],
+  ])('%d is %s', (bytes, expected) => {
+    expect(formatBytes(bytes)).toBe(expected);
+  });
+});
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { tmpdir } from 'node:os';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { createBatch, enforceRetention, listBatches, quarantinePath, removeFromBatch, saveBatch } from '../../quarantine';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2025-06-01T12:00:00Z');
+
+describe('quarantine', () => {
+  let project: string;
+  let root: string;
+
+  beforeEach(() => {
+    project = mkdtempSync(join(tmpdir(), 'safe-rm-quarantine-'));
+    root = join(project, '.pi', 'quarantine');
+  });
+
+  afterEach(() => {
+    rmSync(project, { recursive: true, force: true });
+  });
+
+  // A saved batch holding one file of `bytes` bytes, created `age` ms before NOW
+  async function batchOf(name: string, bytes: number, age: number) {
+    writeFileSync(join(project, name), 'x'.repeat(bytes));
+    const batch = await createBatch(root, project, `rm ${name}`);
+    await quarantinePath(batch, join(project, name));
+    batch.manifest.createdAt = new Date(NOW - age).toISOString();
+    await saveBatch(batch);
+    return batch;
+  }
+
+  it('keeps paths relative to the project, and absolute ones outside it', async () => {
+    mkdirSync(join(project, 'src'));
+    writeFileSync(join(project, 'src', 'a.txt'), 'a');
+    const outside = mkdtempSync(join(tmpdir(), 'safe-rm-outside-'));
+    writeFileSync(join(outside, 'b.txt'), 'b');
+
+    try {
+      const batch = await createBatch(root, project, 'rm src/a.txt b.txt');
+      const inside = await quarantinePath(batch, join(project, 'src', 'a.txt'));
+      const external = await quarantinePath(batch, join(outside, 'b.txt'));
+
+      expect(inside).toBe(join(batch.dir, 'src', 'a.txt'));
+      expect(external).toBe(join(batch.dir, 'external', outside.slice(1), 'b.txt'));
+      expect(existsSync(join(project, 'src', 'a.txt'))).toBe(false);
+      expect(readFileSync(join(root, '.gitignore'), 'utf8')).toBe('*\n');
+    } finally {
+      rmSync(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('numbers items removed from the same path twice', async () => {
+    const batch = await createBatch(root, project, 'rm a.txt; touch a.txt; rm a.txt');
+    writeFileSync(join(project, 'a.txt'), 'first');
+    await quarantinePath(batch, join(project, 'a.txt'));
+    writeFileSync(join(project, 'a.txt'), 'second');
+    expect(await quarantinePath(batch, join(project, 'a.txt'))).toBe(join(batch.dir, 'a 2.txt'));
+  });
+
+  it('leaves the original in place for copies', async () => {
+    writeFileSync(join(project, 'a.txt'), 'a');
+    const batch = await createBatch(root, project, ': > a.txt');
+    await quarantinePath(batch, join(project, 'a.txt'), { copy: true });
+    expect(readFileSync(join(project, 'a.txt'), 'utf8')).toBe('a');
+    expect(batch.manifest.items).toEqual([{ originalPath: join(project, 'a.txt'), path: 'a.txt', size: 1, copy: true }]);
+  });
+
+  it('lists saved batches newest first and drops empty ones', async () => {
+    await batchOf('old.txt', 1, 2 * DAY);
+    await batchOf('new.txt', 1, DAY);
+    const empty = await createBatch(root, project, 'rm missing.txt');
+    await saveBatch(empty);
+
+    expect((await listBatches(root)).map((b) => b.manifest.command)).toEqual(['rm new.txt', 'rm old.txt']);
+    expect(existsSync(empty.dir)).toBe(false);
+  });
+
+  it('removes a batch once its last item is restored', async () => {
+    const batch = await batchOf('a.txt', 1, 0);
+    await removeFromBatch(batch, batch.manifest.items);
+    expect(existsSync(batch.dir)).toBe(false);
+  });
+
+  describe('enforceRetention', () => {
+    it('deletes batches older than maxAgeDays', async () => {
+      await batchOf('old.txt', 1, 8 * DAY);
+      await batchOf('recent.txt', 1, 6 * DAY);
+
+      const purged = await enforceRetention(root, { maxAgeDays: 7, maxMegabytes: 100 }, NOW);
+      expect(purged.map((b) => b.manifest.command)).toEqual(['rm old.txt']);
+      expect((await listBatches(root)).map((b) => b.manifest.command)).toEqual(['rm recent.txt']);
+    });
+
+    it('deletes the oldest batches until the quarantine fits in maxMegabytes', async () => {
+      const half = 512 * 1024;
+      await batchOf('first.bin', half, 3 * DAY);
+      await batchOf('second.bin', half, 2 * DAY);
+      await batchOf('third.bin', half, DAY);
+
+      const purged = await enforceRetention(root, { maxAgeDays: 30, maxMegabytes: 1 }, NOW);
+      expect(purged.map((b) => b.manifest.command)).toEqual(['rm first.bin']);
+      expect((await listBatches(root)).map((b) => b.manifest.command)).toEqual(['rm third.bin', 'rm second.bin']);
+    });
+
+    it('keeps everything within the limits', async () => {
+      await batchOf('a.txt', 10, DAY);
+      expect(await enforceRetention(root, { maxAgeDays: 7, maxMegabytes: 1 }, NOW)).toEqual([]);
+      expect(await enforceRetention(join(project, 'nothing'), { maxAgeDays: 7, maxMegabytes: 1 }, NOW)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { tmpdir } from 'node:os';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { appendTrashRecords, listRestorable, recordFromTrashedItem, restoreItem } from '../../restore';
+import { trashPath } from '../../trash';
+
+describe('restoring trashed files', () => {
+  let root: string;
+  let logPath: string;
+  let previousDataHome: string | undefined;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'safe-rm-restore-'));
+    logPath = join(root, 'trash-log.jsonl');
+    previousDataHome = process.env.XDG_DATA_HOME;
+    process.env.XDG_DATA_HOME = join(root, 'data');
+    mkdirSync(join(root, 'project'));
+  });
+
+  afterEach(() => {
+    if (previousDataHome === undefined) delete process.env.XDG_DATA_HOME;
+    else process.env.XDG_DATA_HOME = previousDataHome;
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  // Trash a new file and record it the way safe-rm does
+  async function trash(name: string, content = name): Promise<string> {
+    const file = join(root, 'project', name);
+    writeFileSync(file, content);
+    const item = await trashPath(file);
+    await appendTrashRecords(logPath, [recordFromTrashedItem(item, join(root, 'project'), `rm ${name}`)]);
+    return file;
+  }
+
+  it('lists trashed items newest first', async () => {
+    await trash('a.txt');
+    await trash('b.txt');
+    const items = await listRestorable(logPath);
+    expect(items.map((i) => i.record.command)).toEqual(['rm b.txt', 'rm a.txt']);
+  });
+
+  it('drops records of items that left the trash', async () => {
+    await trash('a.txt');
+    await trash('b.txt');
+    const [b] = await listRestorable(logPath);
+    rmSync(b.trashedPath);
+
+    expect((await listRestorable(logPath)).map((i) => i.record.command)).toEqual(['rm a.txt']);
+    expect(readFileSync(logPath, 'utf8').trim().split('\n')).toHaveLength(1);
+  });
+
+  it('moves the item back and removes its trashinfo', async () => {
+    const file = await trash('a.txt');
+    const [item] = await listRestorable(logPath);
+
+    expect(await restoreItem(item, 'skip', async () => {})).toBe(file);
+    expect(readFileSync(file, 'utf8')).toBe('a.txt');
+    expect(existsSync(item.infoPath!)).toBe(false);
+    expect(await listRestorable(logPath)).toEqual([]);
+  });
+
+  describe('when the original path is taken', () => {
+    it('restores next to the existing file with keep-both', async () => {
+      const file = await trash('a.txt', 'old');
+      writeFileSync(file, 'new');
+      const [item] = await listRestorable(logPath);
+
+      const restored = await restoreItem(item, 'keep-both', async () => {});
+      expect(restored).toBe(join(root, 'project', 'a (restored).txt'));
+      expect(readFileSync(restored!, 'utf8')).toBe('old');
+      expect(readFileSync(file, 'utf8')).toBe('new');
+    });
+
+    it('numbers further restored copies', async () => {
+      const file = await trash('a.txt', 'old');
+      writeFileSync(file, 'new');
+      writeFileSync(join(root, 'project', 'a (restored).txt'), 'earlier');
+      const [item] = await listRestorable(logPath);
+
+      expect(await restoreItem(item, 'keep-both', async () => {})).toBe(join(root, 'project', 'a (restored 2).txt'));
+    });
+
+    it('hands the existing file to trashExisting with replace', async () => {
+      const file = await trash('a.txt', 'old');
+      writeFileSync(file, 'new');
+      const [item] = await listRestorable(logPath);
+
+      const replaced: string[] = [];
+      const restored = await restoreItem(item, 'replace', async (p) => {
+        replaced.push(p);
+        rmSync(p);
+      });
+      expect(replaced).toEqual([file]);
+      expect(restored).toBe(file);
+      expect(readFileSync(file, 'utf8')).toBe('old');
+    });
+
+    it('leaves both alone with skip', async () => {
+      const file = await trash('a.txt', 'old');
+      writeFileSync(file, 'new');
+      const [item] = await listRestorable(logPath);
+
+      expect(await restoreItem(item, 'skip', async () => {})).toBeNull();
+      expect(readFileSync(file, 'utf8')).toBe('new');
+      expect(existsSync(item.trashedPath)).toBe(true);
+    });
+  });
+});
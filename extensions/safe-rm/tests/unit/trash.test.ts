@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { tmpdir } from 'node:os';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { decodeTrashPath, encodeTrashPath, homeTrashDir, trashPath } from '../../trash';
+
+describe('encodeTrashPath', () => {
+  it('percent-encodes each segment and keeps slashes', () => {
+    expect(encodeTrashPath('/home/me/a b/ü%.txt')).toBe('/home/me/a%20b/%C3%BC%25.txt');
+    expect(encodeTrashPath('/tmp/x?y#z')).toBe('/tmp/x%3Fy%23z');
+  });
+
+  it('round-trips through decodeTrashPath', () => {
+    const p = '/home/me/a b/ü%.txt';
+    expect(decodeTrashPath(encodeTrashPath(p))).toBe(p);
+  });
+
+  it('keeps segments that are not valid encodings', () => {
+    expect(decodeTrashPath('/tmp/100%/a%20b')).toBe('/tmp/100%/a b');
+  });
+});
+
+describe('trashPath', () => {
+  let root: string;
+  let previousDataHome: string | undefined;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'safe-rm-trash-'));
+    previousDataHome = process.env.XDG_DATA_HOME;
+    process.env.XDG_DATA_HOME = join(root, 'data');
+  });
+
+  afterEach(() => {
+    if (previousDataHome === undefined) delete process.env.XDG_DATA_HOME;
+    else process.env.XDG_DATA_HOME = previousDataHome;
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  // Create a file in its own directory so several can share a name
+  function createFile(dir: string, name: string, content = name): string {
+    mkdirSync(join(root, dir), { recursive: true });
+    const file = join(root, dir, name);
+    writeFileSync(file, content);
+    return file;
+  }
+
+  it('moves the item and writes its trashinfo', async () => {
+    const file = createFile('src', 'a b.txt');
+    const item = await trashPath(file);
+
+    expect(item.trashDir).toBe(homeTrashDir());
+    expect(item.trashedPath).toBe(join(homeTrashDir(), 'files', 'a b.txt'));
+    expect(existsSync(file)).toBe(false);
+    expect(readFileSync(item.trashedPath, 'utf8')).toBe('a b.txt');
+
+    const info = readFileSync(item.infoPath, 'utf8');
+    expect(info).toMatch(/^\[Trash Info\]\nPath=.*\/src\/a%20b\.txt\nDeletionDate=\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d\n$/);
+    expect(decodeTrashPath(info.split('\n')[1].slice('Path='.length))).toBe(file);
+  });
+
+  it('numbers clashing names before the extension', async () => {
+    const names = [];
+    for (const dir of ['one', 'two', 'three']) {
+      names.push((await trashPath(createFile(dir, 'notes.txt'))).trashedPath);
+    }
+    expect(names).toEqual(['notes.txt', 'notes 2.txt', 'notes 3.txt'].map((n) => join(homeTrashDir(), 'files', n)));
+    expect(readFileSync(names[2], 'utf8')).toBe('notes.txt');
+  });
+
+  it('skips names taken by leftovers without trashinfo', async () => {
+    const first = await trashPath(createFile('one', 'Makefile'));
+    rmSync(first.infoPath);
+
+    const second = await trashPath(createFile('two', 'Makefile'));
+    expect(second.trashedPath).toBe(join(homeTrashDir(), 'files', 'Makefile 2'));
+  });
+
+  it('leaves the item in place when copying', async () => {
+    const file = createFile('src', 'keep.txt', 'before');
+    const item = await trashPath(file, { copy: true });
+
+    expect(readFileSync(file, 'utf8')).toBe('before');
+    expect(readFileSync(item.trashedPath, 'utf8')).toBe('before');
+    expect(existsSync(item.infoPath)).toBe(true);
+  });
+
+  it('throws for missing items without writing trashinfo', async () => {
+    await expect(trashPath(join(root, 'missing.txt'))).rejects.toThrow(/ENOENT/);
+    expect(existsSync(join(homeTrashDir(), 'info', 'missing.txt.trashinfo'))).toBe(false);
+  });
+});
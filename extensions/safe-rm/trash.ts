@@ -0,0 +1,260 @@
+/**
+ * FreeDesktop.org trash for safe-rm
+ *
+ * Implements the Trash specification (https://specifications.freedesktop.org/trash-spec/)
+ * so non-macOS systems get the same protection as macOS' `trash` command:
+ *
+ * - Files on the same filesystem as the home directory go to the home trash,
+ *   `$XDG_DATA_HOME/Trash` (default `~/.local/share/Trash`)
+ * - Files on other mounts go to `$topdir/.Trash/$uid` (if the admin created a
+ *   sticky `.Trash`) or `$topdir/.Trash-$uid`, so nothing is copied across devices
+ * - Each item gets a `info/<name>.trashinfo` with its original path and
+ *   deletion date, which file managers use to restore it
+ *
+ * The info file is created exclusively before the item is moved, which is
+ * how the spec avoids two processes picking the same name.
+ *
+ * `macTrashPath` moves items to ~/.Trash without the `trash` command, for
+ * when that is missing or fails.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+export interface TrashedItem {
+  /** Absolute path the item was removed from */
+  originalPath: string;
+  /** Where the item now lives (`<trash>/files/<name>`) */
+  trashedPath: string;
+  /** The item's `.trashinfo` file */
+  infoPath: string;
+  /** Trash directory used (home trash or a per-mount one) */
+  trashDir: string;
+  deletedAt: Date;
+}
+
+/**
+ * The home trash directory: `$XDG_DATA_HOME/Trash`, or `~/.local/share/Trash`.
+ */
+export function homeTrashDir(): string {
+  const dataHome = process.env.XDG_DATA_HOME && path.isAbsolute(process.env.XDG_DATA_HOME)
+    ? process.env.XDG_DATA_HOME
+    : path.join(os.homedir(), '.local', 'share');
+  return path.join(dataHome, 'Trash');
+}
+
+/**
+ * Move a file, directory or symlink to the trash. Throws if the item doesn't
+ * exist or no trash directory can take it. With `copy`, a copy goes to the
+ * trash and the item stays in place (for commands that overwrite it).
+ */
+export async function trashPath(target: string, { copy = false }: { copy?: boolean } = {}): Promise<TrashedItem> {
+  const originalPath = path.resolve(target);
+  const stat = await fs.lstat(originalPath);
+  const { trashDir, topDir } = await selectTrashDir(originalPath, stat.dev);
+
+  const deletedAt = new Date();
+  // Paths in a per-mount trash are relative to the mount, so the trash
+  // stays valid when the device is mounted elsewhere
+  const infoPathValue = topDir ? path.relative(topDir, originalPath) : originalPath;
+  const { name, infoPath } = await reserveName(trashDir, path.basename(originalPath), infoPathValue, deletedAt);
+  const trashedPath = path.join(trashDir, 'files', name);
+
+  if (copy) {
+    try {
+      await fs.cp(originalPath, trashedPath, { recursive: true, verbatimSymlinks: true });
+    } catch (e) {
+      await fs.rm(trashedPath, { recursive: true, force: true });
+      await fs.rm(infoPath, { force: true });
+      throw e;
+    }
+    return { originalPath, trashedPath, infoPath, trashDir, deletedAt };
+  }
+
+  try {
+    await fs.rename(originalPath, trashedPath);
+  } catch (e: any) {
+    if (e?.code !== 'EXDEV') {
+      await fs.rm(infoPath, { force: true });
+      throw e;
+    }
+    // Only when falling back to the home trash from another device
+    try {
+      await fs.cp(originalPath, trashedPath, { recursive: true, verbatimSymlinks: true });
+      await fs.rm(originalPath, { recursive: true, force: true });
+    } catch (copyError) {
+      await fs.rm(trashedPath, { recursive: true, force: true });
+      await fs.rm(infoPath, { force: true });
+      throw copyError;
+    }
+  }
+
+  return { originalPath, trashedPath, infoPath, trashDir, deletedAt };
+}
+
+/**
+ * Move a file, directory or symlink to the macOS trash (~/.Trash) in-process.
+ * A clashing name gets the time appended the way Finder does
+ * ("name 18.42.07.txt"), which is what restoring looks for. Returns the
+ * item's path in the trash.
+ */
+export async function macTrashPath(target: string): Promise<string> {
+  const originalPath = path.resolve(target);
+  await fs.lstat(originalPath);
+  const trashDir = path.join(os.homedir(), '.Trash');
+  await fs.mkdir(trashDir, { recursive: true, mode: 0o700 });
+
+  const base = path.basename(originalPath);
+  const ext = path.extname(base);
+  const stem = ext && ext !== base ? base.slice(0, -ext.length) : base;
+  const now = new Date();
+  const time = [now.getHours(), now.getMinutes(), now.getSeconds()].map((n) => String(n).padStart(2, '0')).join('.');
+
+  let trashedPath = path.join(trashDir, base);
+  for (let n = 1; ; n++) {
+    try {
+      await fs.lstat(trashedPath);
+    } catch {
+      break;
+    }
+    trashedPath = path.join(trashDir, `${stem} ${time}${n === 1 ? '' : ` ${n}`}${ext}`);
+  }
+
+  try {
+    await fs.rename(originalPath, trashedPath);
+  } catch (e: any) {
+    if (e?.code !== 'EXDEV') throw e;
+    try {
+      await fs.cp(originalPath, trashedPath, { recursive: true, verbatimSymlinks: true });
+      await fs.rm(originalPath, { recursive: true, force: true });
+    } catch (copyError) {
+      await fs.rm(trashedPath, { recursive: true, force: true });
+      throw copyError;
+    }
+  }
+  return trashedPath;
+}
+
+/**
+ * Pick the trash directory for an item on device `dev`: the home trash when
+ * it is on the same filesystem, else a trash at the top of the item's mount.
+ * `topDir` is set for per-mount trashes.
+ */
+async function selectTrashDir(originalPath: string, dev: number): Promise<{ trashDir: string; topDir: string | null }> {
+  const home = homeTrashDir();
+  await ensureTrashDir(home);
+  const homeDev = (await fs.stat(home)).dev;
+  if (homeDev === dev) return { trashDir: home, topDir: null };
+
+  const topDir = await findMountTop(path.dirname(originalPath), dev);
+  const uid = process.getuid?.() ?? 0;
+
+  // $topdir/.Trash/$uid, only if .Trash is a real sticky directory
+  const adminTrash = path.join(topDir, '.Trash');
+  try {
+    const stat = await fs.lstat(adminTrash);
+    if (stat.isDirectory() && !stat.isSymbolicLink() && (stat.mode & 0o1000) !== 0) {
+      const trashDir = path.join(adminTrash, String(uid));
+      await ensureTrashDir(trashDir);
+      return { trashDir, topDir };
+    }
+  } catch {
+    // No usable .Trash; try .Trash-$uid
+  }
+
+  try {
+    const trashDir = path.join(topDir, `.Trash-${uid}`);
+    await ensureTrashDir(trashDir);
+    return { trashDir, topDir };
+  } catch {
+    // Read-only or foreign mount: copy into the home trash instead
+    return { trashDir: home, topDir: null };
+  }
+}
+
+async function ensureTrashDir(trashDir: string): Promise<void> {
+  await fs.mkdir(path.join(trashDir, 'files'), { recursive: true, mode: 0o700 });
+  await fs.mkdir(path.join(trashDir, 'info'), { recursive: true, mode: 0o700 });
+}
+
+/**
+ * Topmost directory above `dir` that is still on device `dev`.
+ */
+async function findMountTop(dir: string, dev: number): Promise<string> {
+  let current = dir;
+  for (;;) {
+    const parent = path.dirname(current);
+    if (parent === current) return current;
+    try {
+      if ((await fs.stat(parent)).dev !== dev) return current;
+    } catch {
+      return current;
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Create `info/<name>.trashinfo` exclusively, adding " 2", " 3", ... to the
+ * name until it is free in both `info` and `files`.
+ */
+async function reserveName(
+  trashDir: string,
+  baseName: string,
+  infoPathValue: string,
+  deletedAt: Date
+): Promise<{ name: string; infoPath: string }> {
+  const content = [
+    '[Trash Info]',
+    `Path=${encodeTrashPath(infoPathValue)}`,
+    `DeletionDate=${formatDeletionDate(deletedAt)}`,
+    '',
+  ].join('\n');
+
+  const ext = path.extname(baseName);
+  const stem = ext && ext !== baseName ? baseName.slice(0, -ext.length) : baseName;
+
+  for (let n = 1; ; n++) {
+    const name = n === 1 ? baseName : `${stem} ${n}${ext}`;
+    const infoPath = path.join(trashDir, 'info', `${name}.trashinfo`);
+    try {
+      await fs.writeFile(infoPath, content, { flag: 'wx', mode: 0o600 });
+    } catch (e: any) {
+      if (e?.code === 'EEXIST') continue;
+      throw e;
+    }
+    // A leftover in files/ without info still blocks the name
+    try {
+      await fs.lstat(path.join(trashDir, 'files', name));
+      await fs.rm(infoPath, { force: true });
+      continue;
+    } catch {
+      return { name, infoPath };
+    }
+  }
+}
+
+/**
+ * Percent-encode a path for the `Path=` key (RFC 2396, keeping `/`).
+ */
+export function encodeTrashPath(p: string): string {
+  return p.split('/').map(encodeURIComponent).join('/');
+}
+
+export function decodeTrashPath(p: string): string {
+  return p.split('/').map((segment) => {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  }).join('/');
+}
+
+// YYYY-MM-DDThh:mm:ss in local time, as the spec requires
+function formatDeletionDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
@@ -0,0 +1,25 @@
+/**
+ * Date argument parsing for log filters (/safegit-log, /saferm-log)
+ */
+
+/**
+ * Parse a date filter argument: "today", "yesterday", a relative age like
+ * "2h"/"3d", or anything Date.parse accepts ("2025-01-31"). Returns null if
+ * the value can't be parsed.
+ */
+export function parseDateArg(value: string, now = new Date()): Date | null {
+  if (value === "today" || value === "yesterday") {
+    const day = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    if (value === "yesterday") day.setDate(day.getDate() - 1);
+    return day;
+  }
+
+  const relative = value.match(/^(\d+)([mhdw])$/);
+  if (relative) {
+    const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 }[relative[2] as "m" | "h" | "d" | "w"];
+    return new Date(now.getTime() - Number(relative[1]) * unitMs);
+  }
+
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time);
+}
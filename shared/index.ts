@@ -1,10 +1,14 @@
 /**
- * Shared notification utilities module
+ * Shared utilities module
  *
  * Provides notification functionality (beep, speak, bring-to-front)
- * for extensions like background-notify and safe-git.
+ * for extensions like background-notify and safe-git, shell command
+ * parsing for the command-intercepting extensions, and date arguments for
+ * their log commands.
  */
 
 export * from "./types";
 export * from "./settings";
 export * from "./notifications";
+export * from "./shell";
+export * from "./dates";
@@ -0,0 +1,433 @@
+/**
+ * Shell command parsing utilities
+ *
+ * A small, dependency-free tokenizer for the bash strings the agent sends to
+ * the `bash` tool. It does not evaluate anything: it splits a command line
+ * into simple commands (across `&&`, `||`, `;`, `|`, `&`, newlines, subshells,
+ * `$(...)`, backticks and process substitution), honoring quoting and
+ * escapes, and records where each command and word sits in the original
+ * string so callers can classify or rewrite individual segments.
+ */
+
+export interface ShellWord {
+  /** Word value with quotes and escapes removed (substitutions left as raw text) */
+  value: string;
+  /** Offset of the first character of the word in the original string */
+  start: number;
+  /** Offset just past the last character of the word */
+  end: number;
+  /** True if any part of the word was quoted or escaped */
+  quoted: boolean;
+}
+
+export interface ShellRedirect {
+  /** Redirection operator, including any fd prefix (e.g. ">", "2>", "&>>", "<<") */
+  op: string;
+  /** Redirection target (file name, fd number or heredoc delimiter) */
+  target: string;
+  start: number;
+  end: number;
+}
+
+export interface ShellCommand {
+  /** Words of the simple command, including leading VAR=value assignments */
+  words: ShellWord[];
+  redirects: ShellRedirect[];
+  /** Span of the command in the original string (words and redirects) */
+  start: number;
+  end: number;
+  /** Operator that terminated this command, or null at end of input */
+  separator: string | null;
+  /** Nesting depth: 0 at top level, +1 per subshell or command substitution */
+  depth: number;
+}
+
+const RESERVED_PREFIXES = new Set(["if", "then", "else", "elif", "do", "while", "until", "!", "{", "}"]);
+const OPERATOR_CHARS = new Set([";", "&", "|", "<", ">", "(", ")", "\n"]);
+const REDIRECT_RE = /^(?:\d*|&)(?:>>|>&|>\||<<-|<<<|<<|<>|<&|>|<)/;
+
+/**
+ * Parse a shell command line into a flat list of simple commands, in the
+ * order they appear. Commands nested inside substitutions or subshells are
+ * reported alongside their parents with a higher `depth`.
+ *
+ * Malformed input (unterminated quotes, unbalanced parentheses) never throws:
+ * the parser consumes what it can and stops at end of input.
+ */
+export function parseShellCommands(input: string): ShellCommand[] {
+  const out: ShellCommand[] = [];
+  new ShellParser(input, out).parseList(0, 0, null);
+  return out;
+}
+
+/**
+ * Quote a value for safe use as a single shell word.
+ */
+export function shellQuote(value: string): string {
+  if (value.length > 0 && /^[\w@%+=:,./-]+$/.test(value)) return value;
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+// Wrappers that run their arguments as a command, with the options that
+// consume a following argument.
+const COMMAND_WRAPPERS: Record<string, { argOptions: string[]; positional?: number }> = {
+  env: { argOptions: ["-u", "--unset", "-C", "--chdir", "-S", "--split-string"] },
+  sudo: { argOptions: ["-u", "-g", "-h", "-p", "-C", "-D", "-r", "-t", "-U", "-T", "--user", "--group", "--host", "--prompt", "--chdir"] },
+  doas: { argOptions: ["-u", "-C"] },
+  command: { argOptions: [] },
+  builtin: { argOptions: [] },
+  exec: { argOptions: ["-a"] },
+  nohup: { argOptions: [] },
+  time: { argOptions: ["-f", "-o", "--format", "--output"] },
+  nice: { argOptions: ["-n", "--adjustment"] },
+  xargs: { argOptions: ["-I", "-n", "-P", "-L", "-d", "-s", "-E", "-a", "--max-args", "--max-procs", "--delimiter", "--arg-file"] },
+  timeout: { argOptions: ["-s", "-k", "--signal", "--kill-after"], positional: 1 },
+  stdbuf: { argOptions: ["-i", "-o", "-e"] },
+};
+
+/**
+ * Strip leading reserved words, VAR=value assignments and command wrappers
+ * (`env`, `sudo`, `xargs`, `nohup`, `timeout`, ...) from a command's words.
+ *
+ * Returns the effective argv and the index in `words` where it starts, so
+ * callers can map back to original offsets.
+ */
+export function unwrapCommand(words: string[]): { argv: string[]; offset: number } {
+  let i = 0;
+
+  while (i < words.length) {
+    const word = words[i];
+
+    if (RESERVED_PREFIXES.has(word) || /^[A-Za-z_][A-Za-z0-9_]*=/.test(word)) {
+      i++;
+      continue;
+    }
+
+    const wrapper = COMMAND_WRAPPERS[commandName(word)];
+    if (!wrapper) break;
+
+    i++;
+    let positional = wrapper.positional ?? 0;
+    while (i < words.length) {
+      const arg = words[i];
+      if (arg === "--") {
+        i++;
+        break;
+      }
+      if (arg.startsWith("-") && arg.length > 1) {
+        i += wrapper.argOptions.includes(arg) ? 2 : 1;
+        continue;
+      }
+      if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(arg)) {
+        i++;
+        continue;
+      }
+      if (positional > 0) {
+        positional--;
+        i++;
+        continue;
+      }
+      break;
+    }
+  }
+
+  return { argv: words.slice(i), offset: i };
+}
+
+/**
+ * Number of leading reserved words (`if`, `then`, `do`, `!`, `{`, ...) in a
+ * command's words. They belong to the surrounding compound command, so a
+ * rewrite of the command must start after them.
+ */
+export function reservedPrefixLength(words: ShellWord[]): number {
+  let i = 0;
+  while (i < words.length && !words[i].quoted && RESERVED_PREFIXES.has(words[i].value)) i++;
+  return i;
+}
+
+/**
+ * Basename of a command word, so `/usr/bin/git` and `git` compare equal.
+ */
+export function commandName(word: string): string {
+  const slash = word.lastIndexOf("/");
+  return slash >= 0 ? word.slice(slash + 1) : word;
+}
+
+class ShellParser {
+  private pendingHeredocs: { delimiter: string; stripTabs: boolean }[] = [];
+
+  constructor(private src: string, private out: ShellCommand[]) {}
+
+  /**
+   * Parse a command list starting at `pos` until `terminator` (")" or "`")
+   * or end of input. Returns the position just past the terminator.
+   */
+  parseList(pos: number, depth: number, terminator: ")" | "`" | null): number {
+    const src = this.src;
+
+    while (pos < src.length) {
+      pos = this.skipBlanks(pos);
+      if (pos >= src.length) break;
+
+      const ch = src[pos];
+
+      if (terminator && ch === terminator) return pos + 1;
+
+      if (ch === "#") {
+        while (pos < src.length && src[pos] !== "\n") pos++;
+        continue;
+      }
+
+      if (ch === "\n") {
+        pos = this.skipHeredocBodies(pos + 1);
+        continue;
+      }
+
+      if (ch === ";" || ch === "&" || ch === "|") {
+        // Stray operator (e.g. after a subshell group); skip it
+        pos++;
+        continue;
+      }
+
+      if (ch === "(") {
+        pos = this.parseList(pos + 1, depth + 1, ")");
+        continue;
+      }
+
+      if (ch === ")") {
+        // Unbalanced close paren at this level; ignore it
+        pos++;
+        continue;
+      }
+
+      pos = this.parseSimpleCommand(pos, depth, terminator);
+    }
+
+    return pos;
+  }
+
+  private parseSimpleCommand(pos: number, depth: number, terminator: ")" | "`" | null): number {
+    const src = this.src;
+    const command: ShellCommand = {
+      words: [],
+      redirects: [],
+      start: pos,
+      end: pos,
+      separator: null,
+      depth,
+    };
+
+    while (pos < src.length) {
+      pos = this.skipBlanks(pos);
+      if (pos >= src.length) break;
+
+      const ch = src[pos];
+      if (terminator && ch === terminator) break;
+      if (ch === "\n" || ch === ";" || ch === ")" || (ch === "(" && command.words.length > 0)) break;
+      if (ch === "#") {
+        while (pos < src.length && src[pos] !== "\n") pos++;
+        break;
+      }
+
+      if (ch === "&" && src[pos + 1] !== ">") break;
+      if (ch === "|") break;
+
+      if (ch === "(" && command.words.length === 0) break;
+
+      const redirect = REDIRECT_RE.exec(src.slice(pos));
+      const isProcessSubstitution = (ch === "<" || ch === ">") && src[pos + 1] === "(";
+      if (redirect && !isProcessSubstitution && (ch !== "&" || src[pos + 1] === ">")) {
+        const op = redirect[0];
+        const opStart = pos;
+        pos = this.skipBlanks(pos + op.length);
+        const target = this.parseWord(pos, depth, terminator);
+        pos = target.end;
+        command.redirects.push({ op, target: target.value, start: opStart, end: target.end });
+        command.end = target.end;
+        if (op.endsWith("<<") || op.endsWith("<<-")) {
+          this.pendingHeredocs.push({ delimiter: target.value, stripTabs: op.endsWith("-") });
+        }
+        continue;
+      }
+
+      if (isProcessSubstitution) {
+        const start = pos;
+        pos = this.parseList(pos + 2, depth + 1, ")");
+        command.words.push({ value: src.slice(start, pos), start, end: pos, quoted: false });
+        command.end = pos;
+        continue;
+      }
+
+      const word = this.parseWord(pos, depth, terminator);
+      if (word.end === pos) {
+        // Nothing consumed (unexpected operator char); skip it to guarantee progress
+        pos++;
+        continue;
+      }
+      command.words.push(word);
+      command.end = word.end;
+      pos = word.end;
+    }
+
+    // Read the separator that ended this command
+    if (pos < src.length) {
+      const two = src.slice(pos, pos + 2);
+      if (two === "&&" || two === "||" || two === "|&" || two === ";;") {
+        command.separator = two;
+        pos += 2;
+      } else if (src[pos] === ";" || src[pos] === "&" || src[pos] === "|") {
+        command.separator = src[pos];
+        pos++;
+      } else if (src[pos] === "\n") {
+        command.separator = "\n";
+      }
+    }
+
+    if (command.words.length > 0 || command.redirects.length > 0) {
+      this.out.push(command);
+    }
+
+    return pos;
+  }
+
+  private parseWord(pos: number, depth: number, terminator: ")" | "`" | null): ShellWord {
+    const src = this.src;
+    const start = pos;
+    let value = "";
+    let quoted = false;
+
+    while (pos < src.length) {
+      const ch = src[pos];
+
+      if (ch === " " || ch === "\t") break;
+      if (terminator && ch === terminator) break;
+      if (OPERATOR_CHARS.has(ch)) break;
+
+      if (ch === "\\") {
+        quoted = true;
+        if (src[pos + 1] === "\n") {
+          pos += 2;
+          continue;
+        }
+        if (pos + 1 < src.length) value += src[pos + 1];
+        pos += 2;
+        continue;
+      }
+
+      if (ch === "'") {
+        quoted = true;
+        const close = src.indexOf("'", pos + 1);
+        const endQuote = close === -1 ? src.length : close;
+        value += src.slice(pos + 1, endQuote);
+        pos = endQuote + 1;
+        continue;
+      }
+
+      if (ch === '"') {
+        quoted = true;
+        pos++;
+        while (pos < src.length && src[pos] !== '"') {
+          const c = src[pos];
+          if (c === "\\" && pos + 1 < src.length && '$`"\\\n'.includes(src[pos + 1])) {
+            if (src[pos + 1] !== "\n") value += src[pos + 1];
+            pos += 2;
+            continue;
+          }
+          if (c === "$" || c === "`") {
+            const subEnd = this.parseSubstitution(pos, depth);
+            if (subEnd !== pos) {
+              value += src.slice(pos, subEnd);
+              pos = subEnd;
+              continue;
+            }
+          }
+          value += c;
+          pos++;
+        }
+        pos++; // closing quote
+        continue;
+      }
+
+      if (ch === "$" || ch === "`") {
+        const subEnd = this.parseSubstitution(pos, depth);
+        if (subEnd !== pos) {
+          value += src.slice(pos, subEnd);
+          pos = subEnd;
+          continue;
+        }
+      }
+
+      value += ch;
+      pos++;
+    }
+
+    return { value, start, end: Math.min(pos, src.length), quoted };
+  }
+
+  /**
+   * Parse `$(...)`, `` `...` ``, `$((...))` or `${...}` at `pos`. Nested
+   * commands are emitted to the output list. Returns the position after the
+   * substitution, or `pos` unchanged if there is none.
+   */
+  private parseSubstitution(pos: number, depth: number): number {
+    const src = this.src;
+
+    if (src[pos] === "`") {
+      return this.parseList(pos + 1, depth + 1, "`");
+    }
+
+    if (src.startsWith("$((", pos)) {
+      return this.skipBalanced(pos + 3, "(", ")", 2);
+    }
+
+    if (src.startsWith("$(", pos)) {
+      return this.parseList(pos + 2, depth + 1, ")");
+    }
+
+    if (src.startsWith("${", pos)) {
+      return this.skipBalanced(pos + 2, "{", "}", 1);
+    }
+
+    return pos;
+  }
+
+  private skipBalanced(pos: number, open: string, close: string, level: number): number {
+    const src = this.src;
+    while (pos < src.length && level > 0) {
+      if (src[pos] === open) level++;
+      else if (src[pos] === close) level--;
+      pos++;
+    }
+    return pos;
+  }
+
+  private skipBlanks(pos: number): number {
+    const src = this.src;
+    while (pos < src.length) {
+      if (src[pos] === " " || src[pos] === "\t") {
+        pos++;
+      } else if (src[pos] === "\\" && src[pos + 1] === "\n") {
+        pos += 2;
+      } else {
+        break;
+      }
+    }
+    return pos;
+  }
+
+  private skipHeredocBodies(pos: number): number {
+    const src = this.src;
+    while (this.pendingHeredocs.length > 0) {
+      const { delimiter, stripTabs } = this.pendingHeredocs.shift()!;
+      while (pos < src.length) {
+        const lineEnd = src.indexOf("\n", pos);
+        const end = lineEnd === -1 ? src.length : lineEnd;
+        let line = src.slice(pos, end);
+        if (stripTabs) line = line.replace(/^\t+/, "");
+        pos = end + 1;
+        if (line === delimiter) break;
+      }
+    }
+    return Math.min(pos, src.length);
+  }
+}
@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import { commandName, parseShellCommands, reservedPrefixLength, shellQuote, unwrapCommand } from "../../shell";
+
+// Words of each simple command, in parse order
+function words(input: string): string[][] {
+  return parseShellCommands(input).map((c) => c.words.map((w) => w.value));
+}
+
+describe("parseShellCommands", () => {
+  describe("quoting", () => {
+    it("removes quotes and escapes from words", () => {
+      expect(words(`echo 'a b' "c \\"d\\"" e\\ f`)).toEqual([["echo", "a b", 'c "d"', "e f"]]);
+      expect(words(`echo a'b'"c"`)).toEqual([["echo", "abc"]]);
+    });
+
+    it("marks quoted and escaped words", () => {
+      const [command] = parseShellCommands(`rm 'a' b\\ c d`);
+      expect(command.words.map((w) => w.quoted)).toEqual([false, true, true, false]);
+    });
+
+    it("does not split on operators inside quotes", () => {
+      expect(words(`git commit -m "a; rm -rf /"`)).toEqual([["git", "commit", "-m", "a; rm -rf /"]]);
+      expect(words(`echo 'x && y' | cat`)).toEqual([["echo", "x && y"], ["cat"]]);
+    });
+
+    it("keeps an unterminated quote to the end of input", () => {
+      expect(words(`rm "unterminated`)).toEqual([["rm", "unterminated"]]);
+    });
+
+    it("skips heredoc bodies", () => {
+      expect(words("cat <<EOF\nrm x\nEOF\nls")).toEqual([["cat"], ["ls"]]);
+    });
+  });
+
+  describe("compound commands", () => {
+    it("splits lists and pipelines, recording each separator", () => {
+      const commands = parseShellCommands("a && b || c; d | e & f\ng");
+      expect(commands.map((c) => c.words[0].value)).toEqual(["a", "b", "c", "d", "e", "f", "g"]);
+      expect(commands.map((c) => c.separator)).toEqual(["&&", "||", ";", "|", "&", "\n", null]);
+    });
+
+    it("reports subshells and substitutions one level deeper, before their parent", () => {
+      const commands = parseShellCommands("echo $(rm x) `ls` && (cd a; rm b)");
+      expect(commands.map((c) => [c.words[0].value, c.depth])).toEqual([
+        ["rm", 1],
+        ["ls", 1],
+        ["echo", 0],
+        ["cd", 1],
+        ["rm", 1],
+      ]);
+    });
+
+    it("finds substitutions inside double quotes", () => {
+      expect(words(`echo "$(date) x"`)).toEqual([["date"], ["echo", "$(date) x"]]);
+    });
+
+    it("keeps the reserved words of if statements and loops as words", () => {
+      expect(words("if true; then rm a; else rm b; fi")).toEqual([["if", "true"], ["then", "rm", "a"], ["else", "rm", "b"], ["fi"]]);
+      expect(words("for f in *; do rm $f; done")).toEqual([["for", "f", "in", "*"], ["do", "rm", "$f"], ["done"]]);
+    });
+
+    it("separates redirections from words", () => {
+      const [command] = parseShellCommands("rm -v a > out.log 2>&1");
+      expect(command.words.map((w) => w.value)).toEqual(["rm", "-v", "a"]);
+      expect(command.redirects.map((r) => [r.op, r.target])).toEqual([
+        [">", "out.log"],
+        ["2>&", "1"],
+      ]);
+    });
+  });
+
+  describe("offsets", () => {
+    it("maps words and commands back to the original string", () => {
+      const input = `cd src && rm -f 'a b'; ls`;
+      const commands = parseShellCommands(input);
+      expect(commands.map((c) => input.slice(c.start, c.end))).toEqual(["cd src", "rm -f 'a b'", "ls"]);
+      expect(commands[1].words.map((w) => input.slice(w.start, w.end))).toEqual(["rm", "-f", "'a b'"]);
+    });
+
+    it("includes redirections in the command span", () => {
+      const input = "rm a 2>/dev/null && ls";
+      const [command] = parseShellCommands(input);
+      expect(input.slice(command.start, command.end)).toBe("rm a 2>/dev/null");
+    });
+
+    it("points nested commands inside their substitution", () => {
+      const input = "echo $(rm -r build)";
+      const [nested] = parseShellCommands(input);
+      expect(input.slice(nested.start, nested.end)).toBe("rm -r build");
+    });
+  });
+});
+
+describe("unwrapCommand", () => {
+  it("strips assignments", () => {
+    expect(unwrapCommand(["A=1", "B=2", "git", "push"])).toEqual({ argv: ["git", "push"], offset: 2 });
+  });
+
+  it("strips sudo with its options", () => {
+    expect(unwrapCommand(["sudo", "-u", "root", "rm", "x"])).toEqual({ argv: ["rm", "x"], offset: 3 });
+    expect(unwrapCommand(["sudo", "--", "rm", "x"])).toEqual({ argv: ["rm", "x"], offset: 2 });
+  });
+
+  it("strips env with its options and assignments", () => {
+    expect(unwrapCommand(["env", "-u", "HOME", "A=1", "rm", "x"])).toEqual({ argv: ["rm", "x"], offset: 4 });
+    expect(unwrapCommand(["/usr/bin/env", "rm", "x"])).toEqual({ argv: ["rm", "x"], offset: 1 });
+  });
+
+  it("strips xargs with its options", () => {
+    expect(unwrapCommand(["xargs", "-I", "{}", "rm", "{}"])).toEqual({ argv: ["rm", "{}"], offset: 3 });
+    expect(unwrapCommand(["xargs", "-0", "rm", "-f"])).toEqual({ argv: ["rm", "-f"], offset: 2 });
+  });
+
+  it("strips positional arguments and stacked wrappers", () => {
+    expect(unwrapCommand(["timeout", "5", "rm", "x"])).toEqual({ argv: ["rm", "x"], offset: 2 });
+    expect(unwrapCommand(["nohup", "nice", "-n", "5", "rm", "x"])).toEqual({ argv: ["rm", "x"], offset: 4 });
+  });
+
+  it("strips leading reserved words", () => {
+    expect(unwrapCommand(["then", "rm", "x"])).toEqual({ argv: ["rm", "x"], offset: 1 });
+    expect(unwrapCommand(["!", "git", "push"])).toEqual({ argv: ["git", "push"], offset: 1 });
+  });
+
+  it("leaves other commands alone", () => {
+    expect(unwrapCommand(["git", "push"])).toEqual({ argv: ["git", "push"], offset: 0 });
+  });
+});
+
+describe("reservedPrefixLength", () => {
+  const prefix = (input: string) => parseShellCommands(input).map((c) => reservedPrefixLength(c.words));
+
+  it("counts leading reserved words", () => {
+    expect(prefix("if true; then rm a; fi")).toEqual([1, 1, 0]);
+    expect(prefix("while ! rm a; do :; done")).toEqual([2, 1, 0]);
+    expect(prefix("{ rm a; }")).toEqual([1, 1]);
+  });
+
+  it("ignores quoted words", () => {
+    expect(prefix("'if' rm a")).toEqual([0]);
+  });
+});
+
+describe("shellQuote", () => {
+  it("leaves plain words alone", () => {
+    expect(shellQuote("src/a-b_c.txt")).toBe("src/a-b_c.txt");
+  });
+
+  it("single-quotes everything else", () => {
+    expect(shellQuote("a b")).toBe("'a b'");
+    expect(shellQuote("it's")).toBe("'it'\\''s'");
+    expect(shellQuote("")).toBe("''");
+  });
+});
+
+describe("commandName", () => {
+  it("returns the basename of a command word", () => {
+    expect(commandName("/usr/bin/git")).toBe("git");
+    expect(commandName("rm")).toBe("rm");
+  });
+});
@@ -2,7 +2,7 @@ import { defineConfig } from "vitest/config";
 
 export default defineConfig({
   test: {
-    include: ["e2e/**/*.e2e.test.ts"],
+    include: ["e2e/**/*.e2e.test.ts", "shared/tests/**/*.test.ts", "extensions/safe-{git,rm}/tests/**/*.test.ts"],
     testTimeout: 60_000,
     hookTimeout: 30_000,
     // Run tests sequentially (tmux sessions can conflict)